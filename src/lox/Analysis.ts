@@ -0,0 +1,61 @@
+import { Scanner } from './Scanner';
+import { Parser } from './Parser';
+import { Resolver } from './Resolver';
+import type { Interpreter } from './Interpreter';
+import type { Environment } from './Environment';
+import { Stmt } from './Stmt';
+import {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticPhase,
+  normalizeDiagnostics,
+  scanDiagnostic,
+  tokenDiagnostic,
+} from './Diagnostic';
+
+export interface Analysis {
+  statements: Stmt[];
+  // Sorted and deduplicated; the program must not run unless this is empty.
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Runs every static phase over `source` and collects all of their errors,
+ * so that a single pass reports everything wrong with the program. The
+ * resolver still runs after syntax errors, over the statements that parsed.
+ * `path` is given for imported modules and is recorded on their tokens;
+ * `globals` is the scope the code will run in.
+ */
+export function analyze(
+  source: string,
+  interpreter: Interpreter,
+  path: string | null = null,
+  globals: Environment = interpreter.globals,
+): Analysis {
+  const diagnostics: Diagnostic[] = [];
+
+  const file = path !== null ? { path, text: source } : null;
+  const scanner = new Scanner(source, file);
+  const tokens = scanner.scanTokens();
+  diagnostics.push(...scanner.errors.map(scanDiagnostic));
+
+  const parser = new Parser(tokens);
+  const statements = parser.parse();
+  for (const err of parser.errors) {
+    diagnostics.push(tokenDiagnostic(DiagnosticPhase.PARSE, DiagnosticCode.PARSE_ERROR, err.message, err.token));
+  }
+
+  const resolver = new Resolver(interpreter, globals);
+  resolver.resolve(statements);
+  for (const err of resolver.errors) {
+    diagnostics.push(tokenDiagnostic(DiagnosticPhase.RESOLVE, DiagnosticCode.RESOLVE_ERROR, err.message, err.token));
+  }
+
+  const normalized = normalizeDiagnostics(diagnostics);
+  if (file !== null) {
+    for (const diagnostic of normalized) diagnostic.file = file;
+  }
+  // Code with errors never runs, so its constants must not outlive it.
+  if (normalized.length === 0) resolver.commitConstants();
+  return { statements, diagnostics: normalized };
+}
@@ -13,6 +13,15 @@ export class AstPrinter implements Visitor<string> {
     return this.parenthesize('group', expr.expression);
   }
 
+  visitCompoundAssignExpr(expr: Expr.CompoundAssign): string {
+    return this.parenthesize(expr.operator.lexeme, expr.target, expr.value);
+  }
+
+  visitIncrementExpr(expr: Expr.Increment): string {
+    const fixity = expr.prefix ? 'pre' : 'post';
+    return this.parenthesize(`${fixity}${expr.operator.lexeme}`, expr.target);
+  }
+
   visitLiteralExpr(expr: Expr.Literal): string {
     if (expr.value === null) return 'nil';
     return String(expr.value);
@@ -34,6 +43,14 @@ export class AstPrinter implements Visitor<string> {
     return this.parenthesize(expr.operator.lexeme, expr.left, expr.right);
   }
 
+  visitConditionalExpr(expr: Expr.Conditional): string {
+    return this.parenthesize('?:', expr.condition, expr.thenBranch, expr.elseBranch);
+  }
+
+  visitNilCoalesceExpr(expr: Expr.NilCoalesce): string {
+    return this.parenthesize('??', expr.left, expr.right);
+  }
+
   visitCallExpr(expr: Expr.Call): string {
     return this.parenthesize('call', expr.callee, ...expr.args);
   }
@@ -54,6 +71,32 @@ export class AstPrinter implements Visitor<string> {
     return `(super ${expr.method.lexeme})`;
   }
 
+  visitFunctionExpr(expr: Expr.Function): string {
+    const params = expr.params.map(param => param.lexeme).join(' ');
+    return `(fun (${params}))`;
+  }
+
+  visitInterpolationExpr(expr: Expr.Interpolation): string {
+    return this.parenthesize('interpolate', ...expr.parts);
+  }
+
+  visitListExpr(expr: Expr.List): string {
+    return this.parenthesize('list', ...expr.elements);
+  }
+
+  visitMapExpr(expr: Expr.Map): string {
+    const entries = expr.keys.flatMap((key, i) => [key, expr.values[i]]);
+    return this.parenthesize('map', ...entries);
+  }
+
+  visitIndexExpr(expr: Expr.Index): string {
+    return this.parenthesize('index', expr.object, expr.index);
+  }
+
+  visitIndexSetExpr(expr: Expr.IndexSet): string {
+    return this.parenthesize('index-set', expr.object, expr.index, expr.value);
+  }
+
   private parenthesize(name: string, ...exprs: Expr[]): string {
     return `(${name} ${exprs.map(e => e.accept(this)).join(' ')})`;
   }
@@ -0,0 +1,54 @@
+import type { Interpreter } from './Interpreter';
+import { LoxList } from './LoxList';
+import { LoxMap } from './LoxMap';
+import { LoxRange } from './LoxRange';
+
+// The global natives every interpreter starts with.
+export function defineBuiltins(interpreter: Interpreter): void {
+  interpreter.defineNative('clock', 0, () => Date.now() / 1000);
+
+  interpreter.defineNative('len', 1, args => {
+    const value = args.value(0);
+    if (value instanceof LoxList) return value.length;
+    if (value instanceof LoxMap) return value.size;
+    if (typeof value === 'string') return value.length;
+    throw args.error("Argument 1 to 'len' must be a list, a map or a string.");
+  });
+
+  interpreter.defineNative('push', 2, args => {
+    const list = args.list(0);
+    list.elements.push(args.value(1));
+    return list.length;
+  });
+
+  interpreter.defineNative('pop', 1, args => {
+    const list = args.list(0);
+    if (list.length === 0) throw args.error("Can't pop from an empty list.");
+    return list.elements.pop();
+  });
+
+  interpreter.defineNative('has', 2, args =>
+    args.map(0).has(args.callSite, args.value(1)));
+
+  interpreter.defineNative('remove', 2, args =>
+    args.map(0).remove(args.callSite, args.value(1)));
+
+  // Keys and values come back in insertion order, so `keys(m)[i]` and
+  // `values(m)[i]` always belong to the same entry.
+  interpreter.defineNative('keys', 1, args =>
+    new LoxList([...args.map(0).entries.keys()]));
+
+  interpreter.defineNative('values', 1, args =>
+    new LoxList([...args.map(0).entries.values()]));
+
+  interpreter.defineNative('range', { min: 2, max: 3 }, args => {
+    const start = args.number(0);
+    const end = args.number(1);
+    const step = args.has(2) ? args.number(2) : 1;
+    if (![start, end, step].every(Number.isFinite)) {
+      throw args.error('Range start, end and step must be finite numbers.');
+    }
+    if (step === 0) throw args.error("Range step can't be zero.");
+    return new LoxRange(start, end, step);
+  });
+}
@@ -0,0 +1,124 @@
+import {
+  RuntimeError,
+  BudgetExceededError,
+  StackOverflowError,
+  StackFrame,
+  ModuleError,
+} from './RuntimeError';
+import type { ScanError } from './Scanner';
+import { SourceFile, Token } from './Token';
+import { TokenType } from './TokenType';
+import type { Span } from '../shared/Span';
+import { DiagnosticRenderer, tokenContext } from '../shared/DiagnosticRenderer';
+
+export enum DiagnosticPhase {
+  SCAN = 'scan',
+  PARSE = 'parse',
+  RESOLVE = 'resolve',
+  RUNTIME = 'runtime',
+}
+
+export enum DiagnosticCode {
+  SCAN_ERROR = 'LOX001',
+  PARSE_ERROR = 'LOX002',
+  RESOLVE_ERROR = 'LOX003',
+  RUNTIME_ERROR = 'LOX004',
+  BUDGET_EXCEEDED = 'LOX005',
+  STACK_OVERFLOW = 'LOX006',
+}
+
+export interface Diagnostic {
+  phase: DiagnosticPhase;
+  code: DiagnosticCode;
+  message: string;
+  line: number;
+  column: number;
+  span: Span;
+  context: string; // " at 'x'" / " at end" for static errors, else ''
+  stackTrace?: StackFrame[]; // runtime errors only, innermost frame first
+  file?: SourceFile; // errors in an imported module
+}
+
+const PHASE_ORDER = [
+  DiagnosticPhase.SCAN,
+  DiagnosticPhase.PARSE,
+  DiagnosticPhase.RESOLVE,
+  DiagnosticPhase.RUNTIME,
+];
+
+export function scanDiagnostic(error: ScanError): Diagnostic {
+  const { span } = error;
+  return {
+    phase: DiagnosticPhase.SCAN,
+    code: DiagnosticCode.SCAN_ERROR,
+    message: error.message,
+    line: span.line,
+    column: span.column,
+    span,
+    context: '',
+  };
+}
+
+export function tokenDiagnostic(
+  phase: DiagnosticPhase,
+  code: DiagnosticCode,
+  message: string,
+  token: Token,
+): Diagnostic {
+  const context = phase === DiagnosticPhase.RUNTIME
+    ? ''
+    : tokenContext(token.lexeme, token.type === TokenType.EOF);
+  return { phase, code, message, line: token.line, column: token.column, span: token.span, context };
+}
+
+export function runtimeDiagnostic(error: RuntimeError): Diagnostic {
+  let code = DiagnosticCode.RUNTIME_ERROR;
+  if (error instanceof BudgetExceededError) code = DiagnosticCode.BUDGET_EXCEEDED;
+  if (error instanceof StackOverflowError) code = DiagnosticCode.STACK_OVERFLOW;
+  const diagnostic: Diagnostic = {
+    ...tokenDiagnostic(DiagnosticPhase.RUNTIME, code, error.message, error.token),
+    stackTrace: error.stackTrace ?? [],
+  };
+  if (error.token.file !== null) diagnostic.file = error.token.file;
+  return diagnostic;
+}
+
+// Everything to report for a runtime error: the error itself, followed by
+// the static errors of the module it failed to import, if any.
+export function runtimeDiagnostics(error: RuntimeError): Diagnostic[] {
+  const diagnostics = [runtimeDiagnostic(error)];
+  if (error instanceof ModuleError) diagnostics.push(...error.diagnostics);
+  return diagnostics;
+}
+
+/**
+ * Orders diagnostics by source position and drops duplicates. A parse error
+ * on a line that already has a scanner error is almost always caused by the
+ * characters the scanner skipped, so it is dropped as well.
+ */
+export function normalizeDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  const scanLines = new Set(
+    diagnostics.filter(d => d.phase === DiagnosticPhase.SCAN).map(d => d.line),
+  );
+  const seen = new Set<string>();
+  const result: Diagnostic[] = [];
+  for (const d of diagnostics) {
+    if (d.phase === DiagnosticPhase.PARSE && scanLines.has(d.line)) continue;
+    const key = `${d.span.start}:${d.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(d);
+  }
+  return result.sort((a, b) =>
+    a.span.start - b.span.start ||
+    PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase));
+}
+
+export function renderDiagnostic(renderer: DiagnosticRenderer, diagnostic: Diagnostic): string[] {
+  return renderer.render({
+    label: diagnostic.phase === DiagnosticPhase.RUNTIME ? 'RuntimeError' : 'Error',
+    message: diagnostic.message,
+    range: diagnostic.span,
+    context: diagnostic.context,
+  });
+}
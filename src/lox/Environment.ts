@@ -4,8 +4,17 @@ import { LoxValue } from './Interpreter';
 
 export class Environment {
   readonly values = new Map<string, LoxValue>();
-
-  constructor(public readonly enclosing: Environment | null = null) {}
+  // Global names declared with `const`. Kept here rather than in the
+  // Resolver so that later runs against the same globals, such as REPL
+  // lines, still reject assignments to them.
+  readonly constants = new Set<string>();
+
+  constructor(
+    public readonly enclosing: Environment | null = null,
+    // Marks the global scope of the main script or of an imported module,
+    // which sits between that file's own code and the shared builtins.
+    public readonly isModule: boolean = false,
+  ) {}
 
   define(name: string, value: LoxValue): void {
     this.values.set(name, value);
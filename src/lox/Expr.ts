@@ -1,4 +1,6 @@
 import { Token } from './Token';
+import type { Stmt } from './Stmt';
+import type { Span } from '../shared/Span';
 
 export type LoxLiteral = string | number | boolean | null;
 
@@ -9,15 +11,28 @@ export interface Visitor<R> {
   visitUnaryExpr(expr: Expr.Unary): R;
   visitVariableExpr(expr: Expr.Variable): R;
   visitAssignExpr(expr: Expr.Assign): R;
+  visitCompoundAssignExpr(expr: Expr.CompoundAssign): R;
+  visitIncrementExpr(expr: Expr.Increment): R;
   visitLogicalExpr(expr: Expr.Logical): R;
+  visitConditionalExpr(expr: Expr.Conditional): R;
+  visitNilCoalesceExpr(expr: Expr.NilCoalesce): R;
   visitCallExpr(expr: Expr.Call): R;
   visitGetExpr(expr: Expr.Get): R;
   visitSetExpr(expr: Expr.Set): R;
   visitThisExpr(expr: Expr.This): R;
   visitSuperExpr(expr: Expr.Super): R;
+  visitFunctionExpr(expr: Expr.Function): R;
+  visitInterpolationExpr(expr: Expr.Interpolation): R;
+  visitListExpr(expr: Expr.List): R;
+  visitMapExpr(expr: Expr.Map): R;
+  visitIndexExpr(expr: Expr.Index): R;
+  visitIndexSetExpr(expr: Expr.IndexSet): R;
 }
 
 export abstract class Expr {
+  // Source range of the node; set by the Parser.
+  span: Span | null = null;
+
   abstract accept<R>(visitor: Visitor<R>): R;
 }
 
@@ -106,6 +121,69 @@ export namespace Expr {
     }
   }
 
+  // `x += 1`, `a.b += 1`, `xs[i] += 1`: the target's object and index are
+  // evaluated once, then read, combined with value and written back.
+  export class CompoundAssign extends Expr {
+    constructor(
+      public readonly target: Target,
+      public readonly operator: Token,
+      public readonly value: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitCompoundAssignExpr(this);
+    }
+  }
+
+  // Prefix or postfix `++`/`--`. Prefix yields the updated value, postfix the
+  // original one.
+  export class Increment extends Expr {
+    constructor(
+      public readonly target: Target,
+      public readonly operator: Token,
+      public readonly prefix: boolean,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitIncrementExpr(this);
+    }
+  }
+
+  // `condition ? thenBranch : elseBranch`
+  export class Conditional extends Expr {
+    constructor(
+      public readonly condition: Expr,
+      public readonly question: Token,
+      public readonly thenBranch: Expr,
+      public readonly elseBranch: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitConditionalExpr(this);
+    }
+  }
+
+  // `left ?? right`: right is only evaluated when left is nil.
+  export class NilCoalesce extends Expr {
+    constructor(
+      public readonly left: Expr,
+      public readonly operator: Token,
+      public readonly right: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitNilCoalesceExpr(this);
+    }
+  }
+
   export class Call extends Expr {
     constructor(
       public readonly callee: Expr,
@@ -169,4 +247,94 @@ export namespace Expr {
       return visitor.visitSuperExpr(this);
     }
   }
+
+  // An anonymous `fun (a, b) { ... }` expression.
+  export class Function extends Expr {
+    constructor(
+      public readonly keyword: Token,
+      public readonly params: Token[],
+      public readonly body: Stmt[],
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitFunctionExpr(this);
+    }
+  }
+
+  // `"Hi ${name}!"`: the string parts and expressions in source order. Each
+  // part is stringified as `print` would and the results concatenated.
+  export class Interpolation extends Expr {
+    constructor(public readonly parts: Expr[]) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitInterpolationExpr(this);
+    }
+  }
+
+  export class List extends Expr {
+    constructor(
+      public readonly bracket: Token,
+      public readonly elements: Expr[],
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitListExpr(this);
+    }
+  }
+
+  export class Map extends Expr {
+    constructor(
+      public readonly brace: Token,
+      public readonly keys: Expr[],
+      public readonly values: Expr[],
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitMapExpr(this);
+    }
+  }
+
+  export class Index extends Expr {
+    constructor(
+      public readonly object: Expr,
+      public readonly bracket: Token,
+      public readonly index: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitIndexExpr(this);
+    }
+  }
+
+  export class IndexSet extends Expr {
+    constructor(
+      public readonly object: Expr,
+      public readonly bracket: Token,
+      public readonly index: Expr,
+      public readonly value: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: Visitor<R>): R {
+      return visitor.visitIndexSetExpr(this);
+    }
+  }
+
+  // Expressions that can be assigned to.
+  export type Target = Variable | Get | Index;
+
+  export function isTarget(expr: Expr): expr is Target {
+    return expr instanceof Variable || expr instanceof Get || expr instanceof Index;
+  }
 }
@@ -1,28 +1,97 @@
-import { Expr, Visitor } from './Expr';
-import { Stmt, StmtVisitor } from './Stmt';
+import { Expr, LoxLiteral, Visitor } from './Expr';
+import { FunctionKind, Stmt, StmtVisitor } from './Stmt';
 import { Token } from './Token';
 import { TokenType } from './TokenType';
-import { RuntimeError } from './RuntimeError';
+import {
+  RuntimeError,
+  BudgetExceededError,
+  StackOverflowError,
+  StackFrame,
+  ThrownError,
+} from './RuntimeError';
 import { Environment } from './Environment';
 import { LoxCallable, isLoxCallable } from './LoxCallable';
 import { Return } from './Return';
+import { Break, Continue } from './LoopControl';
 import { LoxFunction } from './LoxFunction';
-import { LoxClass } from './LoxClass';
+import { LoxClass, setterName } from './LoxClass';
 import { LoxInstance } from './LoxInstance';
-
-export type LoxValue = null | boolean | number | string | LoxCallable | LoxInstance;
+import { LoxNamespace } from './LoxNamespace';
+import { LoxList } from './LoxList';
+import { LoxMap } from './LoxMap';
+import { LoxRange } from './LoxRange';
+import { LoxNative, NativeArity, NativeGroup, NativeImpl } from './LoxNative';
+import { defineBuiltins } from './Builtins';
+import { runPrelude } from './Prelude';
+import { ModuleLoader } from './ModuleLoader';
+import { Writer, consoleOutWriter } from '../shared/Writer';
+import { ExecutionBudget, ExecutionLimits } from '../shared/ExecutionBudget';
+
+export type LoxValue =
+  | null
+  | boolean
+  | number
+  | string
+  | LoxCallable
+  | LoxInstance
+  | LoxNamespace
+  | LoxList
+  | LoxMap
+  | LoxRange;
+
+// The binary operator each compound assignment applies.
+const COMPOUND_OPERATORS: Partial<Record<TokenType, TokenType>> = {
+  [TokenType.PLUS_EQUAL]: TokenType.PLUS,
+  [TokenType.MINUS_EQUAL]: TokenType.MINUS,
+  [TokenType.STAR_EQUAL]: TokenType.STAR,
+  [TokenType.SLASH_EQUAL]: TokenType.SLASH,
+};
+
+interface CallFrame {
+  name: string;
+  callSite: Token;
+}
 
 export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
-  public readonly globals = new Environment();
+  // Natives and the prelude, shared by the main script and every module.
+  public readonly builtins = new Environment();
+  // The main script's own global scope.
+  public readonly globals = new Environment(this.builtins, true);
   private environment = this.globals;
   private locals = new Map<Expr, number>();
-
-  constructor() {
-    this.globals.define('clock', {
-      arity: () => 0,
-      call: () => Date.now() / 1000,
-      toString: () => '<native fn>',
-    } satisfies LoxCallable);
+  private budget = new ExecutionBudget();
+  private readonly frames: CallFrame[] = [];
+  // For each match statement, the index of the case each literal selects.
+  private readonly matchTables = new Map<Stmt.Match, Map<LoxLiteral, number>>();
+  // Captured once so that a script redefining `Error` cannot change what
+  // `catch` receives for built-in runtime errors.
+  private readonly errorClass: LoxClass;
+
+  constructor(
+    private readonly stdout: Writer = consoleOutWriter,
+    private readonly limits: ExecutionLimits = {},
+    private readonly modules: ModuleLoader = new ModuleLoader(),
+  ) {
+    defineBuiltins(this);
+    runPrelude(this);
+    this.errorClass = this.builtins.values.get('Error') as LoxClass;
+  }
+
+  defineNative(name: string, arity: NativeArity, impl: NativeImpl): LoxNative {
+    const fn = new LoxNative(name, arity, impl);
+    this.builtins.define(name, fn);
+    return fn;
+  }
+
+  // Defines a global namespace holding every native in `group`, so that a
+  // library of natives can be shipped as one unit and called as `ns.fn()`.
+  defineNatives(namespace: string, group: NativeGroup): LoxNamespace {
+    const ns = new LoxNamespace(namespace);
+    for (const [name, def] of Object.entries(group)) {
+      ns.members.set(name, new LoxNative(`${namespace}.${name}`, def.arity, def.impl));
+    }
+    this.builtins.define(namespace, ns);
+    return ns;
   }
 
   resolve(expr: Expr, depth: number): void {
@@ -30,18 +99,65 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
   }
 
   interpret(statements: Stmt[]): void {
-    for (const statement of statements) {
-      this.execute(statement);
+    this.budget = new ExecutionBudget(this.limits);
+    this.frames.length = 0;
+    try {
+      for (const statement of statements) {
+        this.execute(statement);
+      }
+    } catch (err) {
+      this.attachStackTrace(err);
+      throw err;
     }
   }
 
+  // A Lox function call brackets its body with enterFrame and leaveFrame,
+  // and rethrows errors escaping the body through frameError. This is done
+  // inline by LoxFunction rather than through a callback or a wrapper with
+  // its own try block, each of which costs noticeably deeper JS recursion.
+  enterFrame(name: string, callSite: Token): void {
+    const { maxCallDepth } = this.limits;
+    if (maxCallDepth !== undefined && this.frames.length >= maxCallDepth) {
+      throw new StackOverflowError(callSite);
+    }
+    this.frames.push({ name, callSite });
+  }
+
+  leaveFrame(): void {
+    this.frames.pop();
+  }
+
+  // Reports JS stack exhaustion as a Lox stack overflow at the call that hit
+  // it, and gives the error its stack trace.
+  frameError(err: unknown, callSite: Token): unknown {
+    if (err instanceof RangeError && err.message.includes('call stack')) {
+      err = new StackOverflowError(callSite);
+    }
+    this.attachStackTrace(err);
+    return err;
+  }
+
+  // The innermost frame to see an error records the whole stack, since it is
+  // the only one that still has it.
+  private attachStackTrace(err: unknown): void {
+    if (!(err instanceof RuntimeError) || err.stackTrace !== null) return;
+    const trace: StackFrame[] = [];
+    let line = err.token.line;
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      trace.push({ name: this.frames[i].name, line });
+      line = this.frames[i].callSite.line;
+    }
+    trace.push({ name: null, line });
+    err.stackTrace = trace;
+  }
+
   visitExpressionStmt(stmt: Stmt.Expression): void {
     this.evaluate(stmt.expression);
   }
 
   visitPrintStmt(stmt: Stmt.Print): void {
     const value = this.evaluate(stmt.expression);
-    console.log(this.stringify(value));
+    this.stdout.writeLine(this.stringify(value));
   }
 
   visitVarStmt(stmt: Stmt.Var): void {
@@ -65,10 +181,64 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
 
   visitWhileStmt(stmt: Stmt.While): void {
     while (this.isTruthy(this.evaluate(stmt.condition))) {
-      this.execute(stmt.body);
+      this.checkBudget(stmt.keyword);
+      try {
+        this.execute(stmt.body);
+      } catch (signal) {
+        if (signal instanceof Break) break;
+        if (!(signal instanceof Continue)) throw signal;
+      }
+      if (stmt.increment !== null) this.evaluate(stmt.increment);
     }
   }
 
+  visitForInStmt(stmt: Stmt.ForIn): void {
+    const iterable = this.evaluate(stmt.iterable);
+    for (const value of this.iterate(iterable, stmt.keyword)) {
+      this.checkBudget(stmt.keyword);
+      const environment = new Environment(this.environment);
+      environment.define(stmt.name.lexeme, value);
+      try {
+        this.executeBlock([stmt.body], environment);
+      } catch (signal) {
+        if (signal instanceof Break) break;
+        if (!(signal instanceof Continue)) throw signal;
+      }
+    }
+  }
+
+  // Lists are read by index as the loop runs, so elements pushed by the body
+  // are visited too; maps yield a snapshot of their keys. Instances follow
+  // the iterator protocol: `iterator()` returns an object whose `hasNext()`
+  // and `next()` drive the loop.
+  private *iterate(iterable: LoxValue, keyword: Token): Generator<LoxValue> {
+    if (iterable instanceof LoxList) {
+      for (let i = 0; i < iterable.length; i++) yield iterable.elements[i];
+    } else if (iterable instanceof LoxMap) {
+      yield* [...iterable.entries.keys()];
+    } else if (typeof iterable === 'string') {
+      yield* iterable;
+    } else if (iterable instanceof LoxRange) {
+      yield* iterable.values();
+    } else if (iterable instanceof LoxInstance && iterable.klass.findMethod('iterator')) {
+      const iterator = this.callIteratorMethod(iterable, 'iterator', keyword);
+      while (this.isTruthy(this.callIteratorMethod(iterator, 'hasNext', keyword))) {
+        yield this.callIteratorMethod(iterator, 'next', keyword);
+      }
+    } else {
+      throw new RuntimeError(keyword,
+        "Can only iterate over lists, maps, strings, ranges and instances with an 'iterator' method.");
+    }
+  }
+
+  private callIteratorMethod(object: LoxValue, name: string, keyword: Token): LoxValue {
+    const method = object instanceof LoxInstance ? object.klass.findMethod(name) : undefined;
+    if (method === undefined || method.arity() !== 0) {
+      throw new RuntimeError(keyword, `Iterator needs a '${name}' method that takes no arguments.`);
+    }
+    return this.invoke(method.bind(object as LoxInstance), [], keyword);
+  }
+
   visitFunctionStmt(stmt: Stmt.Function): void {
     const fn = new LoxFunction(stmt, this.environment, false);
     this.environment.define(stmt.name.lexeme, fn);
@@ -93,10 +263,14 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
 
     const methods = new Map<string, LoxFunction>();
     for (const method of stmt.methods) {
-      const fn = new LoxFunction(method, this.environment, method.name.lexeme === 'init');
-      methods.set(method.name.lexeme, fn);
+      const isInitializer = method.name.lexeme === 'init' && method.kind === FunctionKind.FUNCTION;
+      methods.set(this.methodKey(method), new LoxFunction(method, this.environment, isInitializer));
+    }
+    const classMethods = new Map<string, LoxFunction>();
+    for (const method of stmt.classMethods) {
+      classMethods.set(this.methodKey(method), new LoxFunction(method, this.environment));
     }
-    const klass = new LoxClass(stmt.name.lexeme, superclass, methods);
+    const klass = new LoxClass(stmt.name.lexeme, superclass, methods, classMethods);
 
     if (superclass !== null) {
       this.environment = this.environment.enclosing!;
@@ -105,26 +279,165 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     this.environment.assign(stmt.name, klass);
   }
 
+  // Literal cases are found with one table lookup rather than tested in
+  // turn. Only instances can match an `is` pattern, and only values that are
+  // not instances can match a literal, so the two never compete.
+  visitMatchStmt(stmt: Stmt.Match): void {
+    const subject = this.evaluate(stmt.subject);
+    const index = subject instanceof LoxInstance
+      ? this.findTypeCase(stmt, subject)
+      : this.matchTable(stmt).get(subject as LoxLiteral);
+    const body = index !== undefined ? stmt.cases[index].body : stmt.defaultBody;
+    if (body !== null) this.executeBlock(body, new Environment(this.environment));
+  }
+
+  private matchTable(stmt: Stmt.Match): Map<LoxLiteral, number> {
+    let table = this.matchTables.get(stmt);
+    if (table === undefined) {
+      table = new Map();
+      stmt.cases.forEach((matchCase, index) => {
+        for (const pattern of matchCase.patterns) {
+          if (pattern instanceof Stmt.LiteralPattern && !table!.has(pattern.value)) {
+            table!.set(pattern.value, index);
+          }
+        }
+      });
+      this.matchTables.set(stmt, table);
+    }
+    return table;
+  }
+
+  private findTypeCase(stmt: Stmt.Match, subject: LoxInstance): number | undefined {
+    for (let index = 0; index < stmt.cases.length; index++) {
+      for (const pattern of stmt.cases[index].patterns) {
+        if (!(pattern instanceof Stmt.TypePattern)) continue;
+        const klass = this.evaluate(pattern.klass);
+        if (!(klass instanceof LoxClass)) {
+          throw new RuntimeError(pattern.klass.name, "Operand of 'is' must be a class.");
+        }
+        if (this.isInstanceOf(subject, klass)) return index;
+      }
+    }
+    return undefined;
+  }
+
+  private isInstanceOf(instance: LoxInstance, klass: LoxClass): boolean {
+    // A class object is an instance of its metaclass, never of a LoxClass.
+    if (!(instance.klass instanceof LoxClass)) return false;
+    for (let k: LoxClass | null = instance.klass; k !== null; k = k.superclass) {
+      if (k === klass) return true;
+    }
+    return false;
+  }
+
+  visitImportStmt(stmt: Stmt.Import): void {
+    const module = this.modules.load(this, stmt.path);
+    if (stmt.alias !== null) {
+      this.environment.define(stmt.alias.lexeme, module);
+    }
+    for (const name of stmt.names) {
+      if (!module.members.has(name.lexeme)) {
+        throw new RuntimeError(name,
+          `Module '${stmt.path.literal}' does not export '${name.lexeme}'.`);
+      }
+      this.environment.define(name.lexeme, module.members.get(name.lexeme)!);
+    }
+  }
+
+  visitExportStmt(stmt: Stmt.Export): void {
+    this.execute(stmt.declaration);
+  }
+
+  private methodKey(method: Stmt.Function): string {
+    const name = method.name.lexeme;
+    return method.kind === FunctionKind.SETTER ? setterName(name) : name;
+  }
+
   visitReturnStmt(stmt: Stmt.Return): void {
     const value = stmt.value ? this.evaluate(stmt.value) : null;
     throw new Return(value);
   }
 
+  visitBreakStmt(_stmt: Stmt.Break): void {
+    throw new Break();
+  }
+
+  visitContinueStmt(_stmt: Stmt.Continue): void {
+    throw new Continue();
+  }
+
+  visitThrowStmt(stmt: Stmt.Throw): void {
+    const value = this.evaluate(stmt.value);
+    throw new ThrownError(stmt.keyword, value, this.describeThrown(value));
+  }
+
+  // Only Lox-level failures are caught. Return, Break and Continue are not
+  // RuntimeErrors and pass straight through to their function or loop, and
+  // an exhausted budget must stop the script whatever it catches.
+  visitTryStmt(stmt: Stmt.Try): void {
+    try {
+      this.executeBlock(stmt.body, new Environment(this.environment));
+    } catch (err) {
+      if (stmt.catchBody === null
+        || !(err instanceof RuntimeError)
+        || err instanceof BudgetExceededError) {
+        throw err;
+      }
+      const environment = new Environment(this.environment);
+      environment.define(stmt.catchName!.lexeme, this.caughtValue(err));
+      this.executeBlock(stmt.catchBody, environment);
+    } finally {
+      if (stmt.finallyBody !== null) {
+        this.executeBlock(stmt.finallyBody, new Environment(this.environment));
+      }
+    }
+  }
+
+  // Built-in errors reach Lox as `Error` instances with the message and the
+  // line they were raised on.
+  private caughtValue(err: RuntimeError): LoxValue {
+    if (err instanceof ThrownError) return err.value;
+    const error = new LoxInstance(this.errorClass);
+    error.setField('message', err.message);
+    error.setField('line', err.token.line);
+    return error;
+  }
+
+  private describeThrown(value: LoxValue): string {
+    if (value instanceof LoxInstance) {
+      const message = value.getField('message');
+      if (typeof message === 'string') return `${value.klass.name}: ${message}`;
+    }
+    return this.stringify(value);
+  }
+
   visitVariableExpr(expr: Expr.Variable): LoxValue {
     return this.lookUpVariable(expr.name, expr);
   }
 
   visitAssignExpr(expr: Expr.Assign): LoxValue {
     const value = this.evaluate(expr.value);
-    const distance = this.locals.get(expr);
-    if (distance !== undefined) {
-      this.environment.assignAt(distance, expr.name, value);
-    } else {
-      this.globals.assign(expr.name, value);
-    }
+    this.assignVariable(expr.name, expr, value);
     return value;
   }
 
+  visitCompoundAssignExpr(expr: Expr.CompoundAssign): LoxValue {
+    const operator = COMPOUND_OPERATORS[expr.operator.type]!;
+    return this.update(expr.target, current => {
+      const value = this.evaluate(expr.value);
+      return this.binary(operator, expr.operator, current, value);
+    }).updated;
+  }
+
+  visitIncrementExpr(expr: Expr.Increment): LoxValue {
+    const delta = expr.operator.type === TokenType.PLUS_PLUS ? 1 : -1;
+    const { original, updated } = this.update(expr.target, current => {
+      this.checkNumberOperand(expr.operator, current);
+      return (current as number) + delta;
+    });
+    return expr.prefix ? updated : original;
+  }
+
   visitLiteralExpr(expr: Expr.Literal): LoxValue {
     return expr.value;
   }
@@ -142,6 +455,9 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
         return -(right as number);
       case TokenType.BANG:
         return !this.isTruthy(right);
+      case TokenType.TILDE:
+        this.checkIntegerOperand(expr.operator, right);
+        return ~(right as number);
     }
 
     return null;
@@ -150,8 +466,13 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
   visitBinaryExpr(expr: Expr.Binary): LoxValue {
     const left = this.evaluate(expr.left);
     const right = this.evaluate(expr.right);
+    return this.binary(expr.operator.type, expr.operator, left, right);
+  }
 
-    switch (expr.operator.type) {
+  // `type` is the operation to apply; `operator` is the token blamed for
+  // errors, which for compound assignments is the `+=` rather than a `+`.
+  private binary(type: TokenType, operator: Token, left: LoxValue, right: LoxValue): LoxValue {
+    switch (type) {
       case TokenType.PLUS:
         if (typeof left === 'number' && typeof right === 'number') {
           return left + right;
@@ -159,33 +480,54 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
         if (typeof left === 'string' && typeof right === 'string') {
           return left + right;
         }
-        throw new RuntimeError(
-          expr.operator,
-          'Operands must be two numbers or two strings.',
-        );
+        throw new RuntimeError(operator, 'Operands must be two numbers or two strings.');
       case TokenType.MINUS:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) - (right as number);
       case TokenType.STAR:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) * (right as number);
       case TokenType.SLASH:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         if ((right as number) === 0) {
-          throw new RuntimeError(expr.operator, 'Division by zero.');
+          throw new RuntimeError(operator, 'Division by zero.');
         }
         return (left as number) / (right as number);
+      case TokenType.PERCENT:
+        this.checkNumberOperands(operator, left, right);
+        if ((right as number) === 0) {
+          throw new RuntimeError(operator, 'Division by zero.');
+        }
+        return (left as number) % (right as number);
+      case TokenType.STAR_STAR:
+        this.checkNumberOperands(operator, left, right);
+        return (left as number) ** (right as number);
+      case TokenType.AMPERSAND:
+        this.checkIntegerOperands(operator, left, right);
+        return (left as number) & (right as number);
+      case TokenType.PIPE:
+        this.checkIntegerOperands(operator, left, right);
+        return (left as number) | (right as number);
+      case TokenType.CARET:
+        this.checkIntegerOperands(operator, left, right);
+        return (left as number) ^ (right as number);
+      case TokenType.LESS_LESS:
+        this.checkIntegerOperands(operator, left, right);
+        return (left as number) << (right as number);
+      case TokenType.GREATER_GREATER:
+        this.checkIntegerOperands(operator, left, right);
+        return (left as number) >> (right as number);
       case TokenType.GREATER:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) > (right as number);
       case TokenType.GREATER_EQUAL:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) >= (right as number);
       case TokenType.LESS:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) < (right as number);
       case TokenType.LESS_EQUAL:
-        this.checkNumberOperands(expr.operator, left, right);
+        this.checkNumberOperands(operator, left, right);
         return (left as number) <= (right as number);
       case TokenType.EQUAL_EQUAL:
         return this.isEqual(left, right);
@@ -208,6 +550,17 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     return this.evaluate(expr.right);
   }
 
+  visitConditionalExpr(expr: Expr.Conditional): LoxValue {
+    if (this.isTruthy(this.evaluate(expr.condition))) return this.evaluate(expr.thenBranch);
+    return this.evaluate(expr.elseBranch);
+  }
+
+  visitNilCoalesceExpr(expr: Expr.NilCoalesce): LoxValue {
+    const left = this.evaluate(expr.left);
+    if (left !== null) return left;
+    return this.evaluate(expr.right);
+  }
+
   visitCallExpr(expr: Expr.Call): LoxValue {
     const callee = this.evaluate(expr.callee);
     const args = expr.args.map(a => this.evaluate(a));
@@ -215,16 +568,30 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     if (!isLoxCallable(callee)) {
       throw new RuntimeError(expr.paren, 'Can only call functions and classes.');
     }
-    if (args.length !== callee.arity()) {
+    const min = callee.arity();
+    const max = callee.maxArity?.() ?? min;
+    if (args.length < min || args.length > max) {
       throw new RuntimeError(expr.paren,
-        `Expected ${callee.arity()} arguments but got ${args.length}.`);
+        `Expected ${this.describeArity(min, max)} arguments but got ${args.length}.`);
     }
-    return callee.call(this, args);
+    // Same as invoke, inlined: an extra JS frame per Lox call noticeably
+    // lowers how deep Lox code can recurse.
+    this.checkBudget(expr.paren);
+    return callee.call(this, args, expr.paren);
+  }
+
+  // Implicit getter and setter calls go through here so that, like explicit
+  // calls, they count against the budget. The call-depth limit is enforced
+  // by enterFrame.
+  private invoke(callee: LoxCallable, args: LoxValue[], callSite: Token): LoxValue {
+    this.checkBudget(callSite);
+    return callee.call(this, args, callSite);
   }
 
   visitGetExpr(expr: Expr.Get): LoxValue {
     const object = this.evaluate(expr.object);
-    if (object instanceof LoxInstance) return object.get(expr.name);
+    if (object instanceof LoxInstance) return this.getProperty(object, expr.name);
+    if (object instanceof LoxNamespace) return object.get(expr.name);
     throw new RuntimeError(expr.name, 'Only instances have properties.');
   }
 
@@ -234,7 +601,60 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
       throw new RuntimeError(expr.name, 'Only instances have fields.');
     }
     const value = this.evaluate(expr.value);
-    object.set(expr.name, value);
+    this.setProperty(object, expr.name, value);
+    return value;
+  }
+
+  // Fields shadow methods, and a getter runs instead of being returned.
+  private getProperty(object: LoxInstance, name: Token): LoxValue {
+    const value = object.get(name);
+    if (value instanceof LoxFunction && value.isGetter) return this.invoke(value, [], name);
+    return value;
+  }
+
+  private setProperty(object: LoxInstance, name: Token, value: LoxValue): void {
+    const setter = object.klass.findMethod(setterName(name.lexeme));
+    if (setter !== undefined) {
+      this.invoke(setter.bind(object), [value], name);
+    } else {
+      object.set(name, value);
+    }
+  }
+
+  visitFunctionExpr(expr: Expr.Function): LoxValue {
+    return new LoxFunction(expr, this.environment);
+  }
+
+  visitInterpolationExpr(expr: Expr.Interpolation): LoxValue {
+    return expr.parts.map(part => this.stringify(this.evaluate(part))).join('');
+  }
+
+  visitListExpr(expr: Expr.List): LoxValue {
+    return new LoxList(expr.elements.map(element => this.evaluate(element)));
+  }
+
+  visitMapExpr(expr: Expr.Map): LoxValue {
+    const map = new LoxMap();
+    expr.keys.forEach((key, i) => {
+      map.set(expr.brace, this.evaluate(key), this.evaluate(expr.values[i]));
+    });
+    return map;
+  }
+
+  visitIndexExpr(expr: Expr.Index): LoxValue {
+    const object = this.evaluate(expr.object);
+    const index = this.evaluate(expr.index);
+    return this.readIndex(object, expr.bracket, index);
+  }
+
+  visitIndexSetExpr(expr: Expr.IndexSet): LoxValue {
+    const object = this.evaluate(expr.object);
+    const index = this.evaluate(expr.index);
+    if (!(object instanceof LoxList) && !(object instanceof LoxMap)) {
+      throw new RuntimeError(expr.bracket, 'Only lists and maps can be indexed.');
+    }
+    const value = this.evaluate(expr.value);
+    object.set(expr.bracket, index, value);
     return value;
   }
 
@@ -246,17 +666,30 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     const distance = this.locals.get(expr)!;
     const superclass = this.environment.getAt(distance, 'super') as LoxClass;
     const object = this.environment.getAt(distance - 1, 'this') as LoxInstance;
-    const method = superclass.findMethod(expr.method.lexeme);
+    // In a static method `this` is the class, so `super` reaches the
+    // superclass's statics rather than its instance methods.
+    const method = object instanceof LoxClass
+      ? superclass.findClassMethod(expr.method.lexeme)
+      : superclass.findMethod(expr.method.lexeme);
     if (!method) {
       throw new RuntimeError(expr.method, `Undefined property '${expr.method.lexeme}'.`);
     }
-    return method.bind(object);
+    const bound = method.bind(object);
+    return bound.isGetter ? this.invoke(bound, [], expr.method) : bound;
   }
 
   private execute(stmt: Stmt): void {
+    this.budget.count();
     stmt.accept(this);
   }
 
+  // Statements are counted as they execute, but the limits are only enforced
+  // on loop iterations and calls: the only places a run can go unbounded.
+  private checkBudget(token: Token): void {
+    const exhausted = this.budget.check();
+    if (exhausted !== null) throw new BudgetExceededError(token, exhausted);
+  }
+
   public executeBlock(statements: Stmt[], environment: Environment): void {
     const previous = this.environment;
     try {
@@ -273,12 +706,86 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     return expr.accept(this);
   }
 
+  private assignVariable(name: Token, expr: Expr, value: LoxValue): void {
+    const distance = this.locals.get(expr);
+    if (distance !== undefined) {
+      this.environment.assignAt(distance, name, value);
+    } else {
+      this.assignGlobal(name, value);
+    }
+  }
+
+  // Builtins are shared by every module, so assigning to one instead gives
+  // the running module a global of its own that shadows it.
+  private assignGlobal(name: Token, value: LoxValue): void {
+    const globals = this.moduleGlobals();
+    if (!globals.values.has(name.lexeme) && this.builtins.values.has(name.lexeme)) {
+      globals.define(name.lexeme, value);
+    } else {
+      globals.assign(name, value);
+    }
+  }
+
+  // Reads the target, computes its new value and writes it back. The
+  // target's object and index expressions are evaluated exactly once.
+  private update(
+    target: Expr.Target,
+    compute: (current: LoxValue) => LoxValue,
+  ): { original: LoxValue; updated: LoxValue } {
+    if (target instanceof Expr.Variable) {
+      const original = this.lookUpVariable(target.name, target);
+      const updated = compute(original);
+      this.assignVariable(target.name, target, updated);
+      return { original, updated };
+    }
+
+    if (target instanceof Expr.Get) {
+      const object = this.evaluate(target.object);
+      if (!(object instanceof LoxInstance)) {
+        throw new RuntimeError(target.name, 'Only instances have fields.');
+      }
+      const original = this.getProperty(object, target.name);
+      const updated = compute(original);
+      this.setProperty(object, target.name, updated);
+      return { original, updated };
+    }
+
+    const object = this.evaluate(target.object);
+    const index = this.evaluate(target.index);
+    const original = this.readIndex(object, target.bracket, index);
+    const updated = compute(original);
+    (object as LoxList | LoxMap).set(target.bracket, index, updated);
+    return { original, updated };
+  }
+
+  private readIndex(object: LoxValue, bracket: Token, index: LoxValue): LoxValue {
+    if (object instanceof LoxList) return object.get(bracket, index);
+    if (object instanceof LoxMap) {
+      const value = object.get(bracket, index);
+      if (value === undefined) {
+        throw new RuntimeError(bracket, `Undefined key '${this.stringify(index)}'.`);
+      }
+      return value;
+    }
+    throw new RuntimeError(bracket, 'Only lists and maps can be indexed.');
+  }
+
   private lookUpVariable(name: Token, expr: Expr): LoxValue {
     const distance = this.locals.get(expr);
     if (distance !== undefined) {
       return this.environment.getAt(distance, name.lexeme);
     }
-    return this.globals.get(name);
+    return this.moduleGlobals().get(name);
+  }
+
+  // Names the Resolver left unresolved are globals of the module the running
+  // code was defined in. Its global scope encloses every environment created
+  // by that code, and itself encloses only the builtins. Outside of any
+  // imported module this is `globals`.
+  private moduleGlobals(): Environment {
+    let env = this.environment;
+    while (!env.isModule && env.enclosing !== null) env = env.enclosing;
+    return env;
   }
 
   private isTruthy(value: LoxValue): boolean {
@@ -287,12 +794,20 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     return true;
   }
 
+  // Lists, maps and instances are equal only to themselves, which is also
+  // what makes instances usable as map keys by identity.
   private isEqual(a: LoxValue, b: LoxValue): boolean {
     if (a === null && b === null) return true;
     if (a === null || b === null) return false;
     return a === b;
   }
 
+  private describeArity(min: number, max: number): string {
+    if (min === max) return String(min);
+    if (max === Infinity) return `at least ${min}`;
+    return `${min} to ${max}`;
+  }
+
   private checkNumberOperand(operator: Token, operand: LoxValue): void {
     if (typeof operand === 'number') return;
     throw new RuntimeError(operator, 'Operand must be a number.');
@@ -307,7 +822,20 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     throw new RuntimeError(operator, 'Operands must be numbers.');
   }
 
-  stringify(value: LoxValue): string {
+  // Bitwise operators only accept integers and work on their 32-bit two's
+  // complement representation, so results wrap like C's int32_t. Shift
+  // counts use their low five bits.
+  private checkIntegerOperand(operator: Token, operand: LoxValue): void {
+    if (Number.isInteger(operand)) return;
+    throw new RuntimeError(operator, 'Operand must be an integer.');
+  }
+
+  private checkIntegerOperands(operator: Token, left: LoxValue, right: LoxValue): void {
+    if (Number.isInteger(left) && Number.isInteger(right)) return;
+    throw new RuntimeError(operator, 'Operands must be integers.');
+  }
+
+  stringify(value: LoxValue, seen: Set<LoxList | LoxMap> = new Set()): string {
     if (value === null) return 'nil';
     if (typeof value === 'boolean') return value.toString();
     if (typeof value === 'number') {
@@ -317,6 +845,25 @@ export class Interpreter implements Visitor<LoxValue>, StmtVisitor<void> {
     }
     if (typeof value === 'string') return value;
     if (value instanceof LoxInstance) return value.toString();
+    if (value instanceof LoxNamespace) return value.toString();
+    if (value instanceof LoxRange) return value.toString();
+    if (value instanceof LoxList) {
+      // A list that contains itself prints as [...] instead of recursing.
+      if (seen.has(value)) return '[...]';
+      seen.add(value);
+      const text = value.elements.map(element => this.stringify(element, seen));
+      seen.delete(value);
+      return `[${text.join(', ')}]`;
+    }
+    if (value instanceof LoxMap) {
+      if (seen.has(value)) return '{...}';
+      seen.add(value);
+      const text = [...value.entries].map(
+        ([key, entry]) => `${this.stringify(key, seen)}: ${this.stringify(entry, seen)}`,
+      );
+      seen.delete(value);
+      return `{${text.join(', ')}}`;
+    }
     if (isLoxCallable(value)) return value.toString();
     return '';
   }
@@ -0,0 +1,5 @@
+// Thrown by `break` and `continue` and caught by the innermost enclosing
+// loop. The Resolver guarantees there always is one.
+export class Break extends Error {}
+
+export class Continue extends Error {}
@@ -1,73 +1,86 @@
 import * as fs from 'fs';
 import * as readline from 'readline';
-import { Scanner } from './Scanner';
-import { Parser } from './Parser';
 import { Interpreter } from './Interpreter';
-import { Resolver } from './Resolver';
-import { RuntimeError } from './RuntimeError';
+import { ModuleLoader } from './ModuleLoader';
+import { RuntimeError, formatStackTrace } from './RuntimeError';
+import { analyze } from './Analysis';
+import { Diagnostic, renderDiagnostic, runtimeDiagnostics } from './Diagnostic';
+import { StreamWriter } from '../shared/Writer';
+import { DiagnosticRenderer } from '../shared/DiagnosticRenderer';
+import { JsonDiagnosticWriter } from '../shared/JsonDiagnostics';
+import { CliArgs, parseCliArgs } from '../shared/CliArgs';
 
-const interpreter = new Interpreter();
+const stdout = new StreamWriter(process.stdout);
+const stderr = new StreamWriter(process.stderr);
 let hadError = false;
 let hadRuntimeError = false;
 
-function run(source: string): void {
-  const scanner = new Scanner(source);
-  const tokens = scanner.scanTokens();
-  const parser = new Parser(tokens);
-  const statements = parser.parse();
-
-  if (parser.errors.length > 0) {
-    for (const err of parser.errors) {
-      console.error(`[line ${err.token.line}] Error: ${err.message}`);
-    }
-    hadError = true;
+function report(cli: CliArgs, json: JsonDiagnosticWriter, source: string, diagnostic: Diagnostic): void {
+  if (cli.diagnostics === 'json') {
+    json.diagnostic({ ...diagnostic, range: diagnostic.span, file: diagnostic.file?.path });
     return;
   }
+  if (diagnostic.file !== undefined) stderr.writeLine(`In module ${diagnostic.file.path}:`);
+  const renderer = new DiagnosticRenderer(diagnostic.file?.text ?? source, { color: stderr.colors });
+  for (const line of renderDiagnostic(renderer, diagnostic)) stderr.writeLine(line);
+  for (const line of formatStackTrace(diagnostic.stackTrace ?? [])) stderr.writeLine(line);
+}
 
-  const resolver = new Resolver(interpreter);
-  resolver.resolve(statements);
+function createInterpreter(cli: CliArgs): Interpreter {
+  const modules = new ModuleLoader({
+    mainFile: cli.path ?? undefined,
+    searchPath: cli.modulePath,
+  });
+  return new Interpreter(stdout, {}, modules);
+}
 
-  if (resolver.errors.length > 0) {
-    for (const err of resolver.errors) {
-      console.error(`[line ${err.token.line}] Error: ${err.message}`);
-    }
-    hadError = true;
-    return;
-  }
+function run(cli: CliArgs, interpreter: Interpreter, json: JsonDiagnosticWriter, source: string): void {
+  const { statements, diagnostics } = analyze(source, interpreter);
 
-  try {
-    interpreter.interpret(statements);
-  } catch (e) {
-    if (e instanceof RuntimeError) {
-      console.error(`[line ${e.token.line}] RuntimeError: ${e.message}`);
+  if (diagnostics.length > 0) {
+    for (const diagnostic of diagnostics) report(cli, json, source, diagnostic);
+    hadError = true;
+  } else {
+    try {
+      interpreter.interpret(statements);
+    } catch (e) {
+      if (!(e instanceof RuntimeError)) throw e;
+      for (const diagnostic of runtimeDiagnostics(e)) report(cli, json, source, diagnostic);
       hadRuntimeError = true;
-    } else {
-      throw e;
     }
   }
+
+  if (cli.diagnostics === 'json') {
+    if (hadError) json.summary('compile-error', 65);
+    else if (hadRuntimeError) json.summary('runtime-error', 70);
+    else json.summary('ok', 0);
+  }
 }
 
-function runFile(path: string): void {
+function runFile(cli: CliArgs, path: string): void {
   const source = fs.readFileSync(path, 'utf-8');
-  run(source);
+  run(cli, createInterpreter(cli), new JsonDiagnosticWriter(stderr, path), source);
   if (hadError) process.exit(65);
   if (hadRuntimeError) process.exit(70);
 }
 
-function runPrompt(): void {
+function runPrompt(cli: CliArgs): void {
+  const interpreter = createInterpreter(cli);
+  const json = new JsonDiagnosticWriter(stderr, null);
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
   rl.on('line', (line) => {
-    run(line);
+    run(cli, interpreter, json, line);
     hadError = false;
+    hadRuntimeError = false;
   });
 }
 
-const args = process.argv.slice(2);
-if (args.length > 1) {
-  console.error('Usage: lox [script]');
+const cli = parseCliArgs(process.argv.slice(2));
+if (cli === null) {
+  console.error('Usage: lox [--diagnostics=text|json] [--module-path=dirs] [script]');
   process.exit(64);
-} else if (args.length === 1) {
-  runFile(args[0]);
+} else if (cli.path !== null) {
+  runFile(cli, cli.path);
 } else {
-  runPrompt();
+  runPrompt(cli);
 }
@@ -1,9 +1,13 @@
 import type { Interpreter } from './Interpreter';
 import type { LoxValue } from './Interpreter';
+import type { Token } from './Token';
 
 export interface LoxCallable {
   arity(): number;
-  call(interpreter: Interpreter, args: LoxValue[]): LoxValue;
+  // Callables that accept a variable number of arguments report the upper
+  // bound here; `arity()` is then the lower bound.
+  maxArity?(): number;
+  call(interpreter: Interpreter, args: LoxValue[], callSite: Token): LoxValue;
   toString(): string;
 }
 
@@ -1,25 +1,67 @@
 import type { Interpreter } from './Interpreter';
 import type { LoxValue } from './Interpreter';
 import type { LoxCallable } from './LoxCallable';
+import type { Token } from './Token';
 import { LoxFunction } from './LoxFunction';
-import { LoxInstance } from './LoxInstance';
+import { InstanceClass, LoxInstance } from './LoxInstance';
 
-export class LoxClass implements LoxCallable {
+// Setters share the method table with everything else, under a name no
+// identifier can collide with, so they are inherited the same way.
+export function setterName(property: string): string {
+  return `${property}=`;
+}
+
+// The class of a class object: it holds the static methods, and inherits
+// those of the superclass's metaclass. Lox code never sees it as a value.
+class Metaclass implements InstanceClass {
   constructor(
     public readonly name: string,
-    public readonly superclass: LoxClass | null,
+    private readonly superclass: Metaclass | null,
     private readonly methods: Map<string, LoxFunction>,
   ) {}
 
+  findMethod(name: string): LoxFunction | undefined {
+    if (this.methods.has(name)) return this.methods.get(name);
+    if (this.superclass) return this.superclass.findMethod(name);
+    return undefined;
+  }
+}
+
+// A class is itself an instance of its metaclass, so static fields are just
+// its fields and static methods are bound to it like any other method.
+export class LoxClass extends LoxInstance implements LoxCallable {
+  constructor(
+    public readonly name: string,
+    public readonly superclass: LoxClass | null,
+    private readonly methods: Map<string, LoxFunction>,
+    classMethods: Map<string, LoxFunction> = new Map(),
+  ) {
+    super(new Metaclass(`${name} metaclass`, superclass?.metaclass ?? null, classMethods));
+  }
+
+  private get metaclass(): Metaclass {
+    return this.klass as Metaclass;
+  }
+
+  // Static fields are inherited too; a subclass that assigns one shadows the
+  // superclass's value rather than changing it.
+  override get(name: Token): LoxValue {
+    for (let klass: LoxClass | null = this; klass !== null; klass = klass.superclass) {
+      const field = klass.getField(name.lexeme);
+      if (field !== undefined) return field;
+    }
+    return super.get(name);
+  }
+
   arity(): number {
     const init = this.findMethod('init');
     return init ? init.arity() : 0;
   }
 
-  call(interpreter: Interpreter, args: LoxValue[]): LoxValue {
+  call(interpreter: Interpreter, args: LoxValue[], callSite: Token): LoxValue {
     const instance = new LoxInstance(this);
     const init = this.findMethod('init');
-    if (init !== undefined) init.bind(instance).call(interpreter, args);
+    if (init !== undefined) init.bind(instance).call(interpreter, args, callSite);
     return instance;
   }
 
@@ -29,7 +71,11 @@ export class LoxClass implements LoxCallable {
     return undefined;
   }
 
-  toString(): string {
+  findClassMethod(name: string): LoxFunction | undefined {
+    return this.metaclass.findMethod(name);
+  }
+
+  override toString(): string {
     return this.name;
   }
 }
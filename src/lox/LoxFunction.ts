@@ -1,18 +1,32 @@
 import type { Interpreter } from './Interpreter';
 import type { LoxValue } from './Interpreter';
 import type { LoxInstance } from './LoxInstance';
-import { Stmt } from './Stmt';
+import { FunctionKind, Stmt } from './Stmt';
+import type { Expr } from './Expr';
 import { Environment } from './Environment';
 import { Return } from './Return';
 import { LoxCallable } from './LoxCallable';
+import type { Token } from './Token';
 
 export class LoxFunction implements LoxCallable {
   constructor(
-    private readonly declaration: Stmt.Function,
+    private readonly declaration: Stmt.Function | Expr.Function,
     private readonly closure: Environment,
     private readonly isInitializer: boolean = false,
   ) {}
 
+  // Anonymous functions are named after the line they're defined on, so they
+  // can still be told apart in output and stack traces.
+  get name(): string {
+    if (this.declaration instanceof Stmt.Function) return this.declaration.name.lexeme;
+    return `anonymous@${this.declaration.keyword.line}`;
+  }
+
+  get isGetter(): boolean {
+    return this.declaration instanceof Stmt.Function
+      && this.declaration.kind === FunctionKind.GETTER;
+  }
+
   arity(): number {
     return this.declaration.params.length;
   }
@@ -23,11 +37,12 @@ export class LoxFunction implements LoxCallable {
     return new LoxFunction(this.declaration, env, this.isInitializer);
   }
 
-  call(interpreter: Interpreter, args: LoxValue[]): LoxValue {
+  call(interpreter: Interpreter, args: LoxValue[], callSite: Token): LoxValue {
     const env = new Environment(this.closure);
     for (let i = 0; i < this.declaration.params.length; i++) {
       env.define(this.declaration.params[i].lexeme, args[i]);
     }
+    interpreter.enterFrame(this.name, callSite);
     try {
       interpreter.executeBlock(this.declaration.body, env);
     } catch (err) {
@@ -35,13 +50,15 @@ export class LoxFunction implements LoxCallable {
         if (this.isInitializer) return this.closure.getAt(0, 'this');
         return err.value;
       }
-      throw err;
+      throw interpreter.frameError(err, callSite);
+    } finally {
+      interpreter.leaveFrame();
     }
     if (this.isInitializer) return this.closure.getAt(0, 'this');
     return null;
   }
 
   toString(): string {
-    return `<fn ${this.declaration.name.lexeme}>`;
+    return `<fn ${this.name}>`;
   }
 }
@@ -1,12 +1,19 @@
 import { Token } from './Token';
 import { RuntimeError } from './RuntimeError';
 import type { LoxValue } from './Interpreter';
-import type { LoxClass } from './LoxClass';
+import type { LoxFunction } from './LoxFunction';
+
+// Where an instance looks up its methods: a LoxClass, or the metaclass of a
+// class object.
+export interface InstanceClass {
+  readonly name: string;
+  findMethod(name: string): LoxFunction | undefined;
+}
 
 export class LoxInstance {
   private fields = new Map<string, LoxValue>();
 
-  constructor(private readonly klass: LoxClass) {}
+  constructor(public readonly klass: InstanceClass) {}
 
   get(name: Token): LoxValue {
     if (this.fields.has(name.lexeme)) {
@@ -21,6 +28,15 @@ export class LoxInstance {
     this.fields.set(name.lexeme, value);
   }
 
+  // Field access by name, for runtime code that has no source token.
+  getField(name: string): LoxValue | undefined {
+    return this.fields.get(name);
+  }
+
+  setField(name: string, value: LoxValue): void {
+    this.fields.set(name, value);
+  }
+
   toString(): string {
     return `${this.klass.name} instance`;
   }
@@ -0,0 +1,33 @@
+import { Token } from './Token';
+import { RuntimeError } from './RuntimeError';
+import type { LoxValue } from './Interpreter';
+
+// A mutable, zero-indexed list created by a `[a, b, c]` literal.
+export class LoxList {
+  constructor(public readonly elements: LoxValue[] = []) {}
+
+  get length(): number {
+    return this.elements.length;
+  }
+
+  get(bracket: Token, index: LoxValue): LoxValue {
+    return this.elements[this.checkIndex(bracket, index)];
+  }
+
+  set(bracket: Token, index: LoxValue, value: LoxValue): void {
+    this.elements[this.checkIndex(bracket, index)] = value;
+  }
+
+  private checkIndex(bracket: Token, index: LoxValue): number {
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      throw new RuntimeError(bracket, 'List index must be an integer.');
+    }
+    if (index < 0 || index >= this.elements.length) {
+      throw new RuntimeError(
+        bracket,
+        `List index ${index} out of bounds for length ${this.elements.length}.`,
+      );
+    }
+    return index;
+  }
+}
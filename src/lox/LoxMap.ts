@@ -0,0 +1,51 @@
+import { Token } from './Token';
+import { RuntimeError } from './RuntimeError';
+import { LoxInstance } from './LoxInstance';
+import type { LoxValue } from './Interpreter';
+
+// Strings, numbers, booleans and nil are keys by value; instances are keys by
+// identity. Anything else (lists, maps, functions) can't be used as a key.
+export function isValidMapKey(key: LoxValue): boolean {
+  return (
+    key === null ||
+    typeof key === 'string' ||
+    typeof key === 'number' ||
+    typeof key === 'boolean' ||
+    key instanceof LoxInstance
+  );
+}
+
+// A mutable map created by a `{key: value}` literal. Keys keep insertion order.
+export class LoxMap {
+  readonly entries = new Map<LoxValue, LoxValue>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(token: Token, key: LoxValue): boolean {
+    return this.entries.has(this.checkKey(token, key));
+  }
+
+  get(token: Token, key: LoxValue): LoxValue | undefined {
+    return this.entries.get(this.checkKey(token, key));
+  }
+
+  set(token: Token, key: LoxValue, value: LoxValue): void {
+    this.entries.set(this.checkKey(token, key), value);
+  }
+
+  remove(token: Token, key: LoxValue): boolean {
+    return this.entries.delete(this.checkKey(token, key));
+  }
+
+  private checkKey(token: Token, key: LoxValue): LoxValue {
+    if (!isValidMapKey(key)) {
+      throw new RuntimeError(
+        token,
+        'Map key must be a string, number, boolean, nil or instance.',
+      );
+    }
+    return key;
+  }
+}
@@ -0,0 +1,19 @@
+import { Token } from './Token';
+import { RuntimeError } from './RuntimeError';
+import type { LoxValue } from './Interpreter';
+
+// A named, read-only bag of values, e.g. a group of natives like `math.sqrt`.
+export class LoxNamespace {
+  readonly members = new Map<string, LoxValue>();
+
+  constructor(public readonly name: string) {}
+
+  get(name: Token): LoxValue {
+    if (this.members.has(name.lexeme)) return this.members.get(name.lexeme)!;
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}' in '${this.name}'.`);
+  }
+
+  toString(): string {
+    return `<namespace ${this.name}>`;
+  }
+}
@@ -0,0 +1,152 @@
+import type { Interpreter } from './Interpreter';
+import type { LoxValue } from './Interpreter';
+import { LoxCallable, isLoxCallable } from './LoxCallable';
+import { LoxInstance } from './LoxInstance';
+import { LoxList } from './LoxList';
+import { LoxMap } from './LoxMap';
+import { LoxNamespace } from './LoxNamespace';
+import { LoxRange } from './LoxRange';
+import { RuntimeError } from './RuntimeError';
+import { Token } from './Token';
+
+export type NativeArity = number | { min: number; max: number };
+
+// Natives may return any JS value that maps onto a LoxValue; `undefined`
+// becomes nil.
+export type NativeImpl = (args: NativeArgs, interpreter: Interpreter) => unknown;
+
+export interface NativeDefinition {
+  arity: NativeArity;
+  impl: NativeImpl;
+}
+
+export type NativeGroup = Record<string, NativeDefinition>;
+
+/**
+ * Typed view over the arguments of a native call. Accessors check the type
+ * of the argument and throw a RuntimeError at the call site on mismatch.
+ */
+export class NativeArgs {
+  constructor(
+    public readonly fnName: string,
+    public readonly values: LoxValue[],
+    public readonly callSite: Token,
+  ) {}
+
+  get length(): number {
+    return this.values.length;
+  }
+
+  has(index: number): boolean {
+    return index < this.values.length;
+  }
+
+  value(index: number): LoxValue {
+    return this.values[index] ?? null;
+  }
+
+  number(index: number): number {
+    const value = this.value(index);
+    if (typeof value !== 'number') throw this.typeError(index, 'a number');
+    return value;
+  }
+
+  string(index: number): string {
+    const value = this.value(index);
+    if (typeof value !== 'string') throw this.typeError(index, 'a string');
+    return value;
+  }
+
+  boolean(index: number): boolean {
+    const value = this.value(index);
+    if (typeof value !== 'boolean') throw this.typeError(index, 'a boolean');
+    return value;
+  }
+
+  callable(index: number): LoxCallable {
+    const value = this.value(index);
+    if (!isLoxCallable(value)) throw this.typeError(index, 'callable');
+    return value;
+  }
+
+  instance(index: number): LoxInstance {
+    const value = this.value(index);
+    if (!(value instanceof LoxInstance)) throw this.typeError(index, 'an instance');
+    return value;
+  }
+
+  list(index: number): LoxList {
+    const value = this.value(index);
+    if (!(value instanceof LoxList)) throw this.typeError(index, 'a list');
+    return value;
+  }
+
+  map(index: number): LoxMap {
+    const value = this.value(index);
+    if (!(value instanceof LoxMap)) throw this.typeError(index, 'a map');
+    return value;
+  }
+
+  error(message: string): RuntimeError {
+    return new RuntimeError(this.callSite, message);
+  }
+
+  private typeError(index: number, expected: string): RuntimeError {
+    return this.error(`Argument ${index + 1} to '${this.fnName}' must be ${expected}.`);
+  }
+}
+
+export class LoxNative implements LoxCallable {
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(
+    public readonly name: string,
+    arity: NativeArity,
+    private readonly impl: NativeImpl,
+  ) {
+    this.min = typeof arity === 'number' ? arity : arity.min;
+    this.max = typeof arity === 'number' ? arity : arity.max;
+    if (!(this.min >= 0 && this.max >= this.min)) {
+      throw new RangeError(`Invalid arity for native '${name}'.`);
+    }
+  }
+
+  arity(): number {
+    return this.min;
+  }
+
+  maxArity(): number {
+    return this.max;
+  }
+
+  call(interpreter: Interpreter, args: LoxValue[], callSite: Token): LoxValue {
+    const result = this.impl(new NativeArgs(this.name, args, callSite), interpreter);
+    return this.toLoxValue(result, callSite);
+  }
+
+  toString(): string {
+    return '<native fn>';
+  }
+
+  private toLoxValue(value: unknown, callSite: Token): LoxValue {
+    if (value === undefined || value === null) return null;
+    switch (typeof value) {
+      case 'boolean':
+      case 'number':
+      case 'string':
+        return value;
+    }
+    if (
+      value instanceof LoxInstance ||
+      value instanceof LoxNamespace ||
+      value instanceof LoxList ||
+      value instanceof LoxMap ||
+      value instanceof LoxRange ||
+      isLoxCallable(value)
+    ) {
+      return value;
+    }
+    throw new RuntimeError(callSite, `Native function '${this.name}' returned an unsupported value.`);
+  }
+}
@@ -0,0 +1,22 @@
+// The lazy sequence returned by `range(start, end, step)`: start, start +
+// step, ... up to but excluding end. Values are computed from their index
+// so that fractional steps do not accumulate rounding error.
+export class LoxRange {
+  constructor(
+    public readonly start: number,
+    public readonly end: number,
+    public readonly step: number,
+  ) {}
+
+  *values(): Generator<number> {
+    for (let i = 0; ; i++) {
+      const value = this.start + i * this.step;
+      if (this.step > 0 ? value >= this.end : value <= this.end) return;
+      yield value;
+    }
+  }
+
+  toString(): string {
+    return `range(${this.start}, ${this.end}, ${this.step})`;
+  }
+}
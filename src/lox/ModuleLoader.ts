@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Interpreter } from './Interpreter';
+import { analyze } from './Analysis';
+import { Environment } from './Environment';
+import { LoxNamespace } from './LoxNamespace';
+import { ModuleError, RuntimeError } from './RuntimeError';
+import { Stmt } from './Stmt';
+import { Token } from './Token';
+
+export interface ModuleOptions {
+  // The file the main script came from. Relative imports in it resolve
+  // against its directory, or the working directory when there is none.
+  mainFile?: string;
+  // Directories tried, in order, when an import is not found relative to
+  // the importing file.
+  searchPath?: string[];
+}
+
+/**
+ * Finds, evaluates and caches the modules imported by one interpreter. Each
+ * module runs once, in its own global scope, and is exposed to importers as
+ * a namespace of its exports. Those are captured when the module finishes,
+ * so reassigning an exported variable later is not seen by importers.
+ */
+export class ModuleLoader {
+  private readonly cache = new Map<string, LoxNamespace>();
+  // Files currently being evaluated, outermost first.
+  private readonly loading: string[] = [];
+  private readonly searchPath: string[];
+  private currentFile: string | null;
+
+  constructor(options: ModuleOptions = {}) {
+    this.searchPath = options.searchPath ?? [];
+    this.currentFile = options.mainFile !== undefined ? path.resolve(options.mainFile) : null;
+  }
+
+  load(interpreter: Interpreter, pathToken: Token): LoxNamespace {
+    const specifier = pathToken.literal as string;
+    const file = this.resolve(specifier);
+    if (file === null) {
+      throw new RuntimeError(pathToken, `Cannot find module '${specifier}'.`);
+    }
+
+    const cached = this.cache.get(file);
+    if (cached !== undefined) return cached;
+
+    if (this.loading.includes(file)) {
+      const cycle = [...this.loading.slice(this.loading.indexOf(file)), file]
+        .map(f => path.basename(f));
+      throw new RuntimeError(pathToken, `Import cycle: ${cycle.join(' -> ')}.`);
+    }
+
+    const globals = new Environment(interpreter.builtins, true);
+    const source = fs.readFileSync(file, 'utf-8');
+    const { statements, diagnostics } = analyze(source, interpreter, file, globals);
+    if (diagnostics.length > 0) {
+      throw new ModuleError(pathToken, `Module '${specifier}' has errors.`, diagnostics);
+    }
+
+    const importer = this.currentFile;
+    this.loading.push(file);
+    this.currentFile = file;
+    try {
+      interpreter.executeBlock(statements, globals);
+    } finally {
+      this.loading.pop();
+      this.currentFile = importer;
+    }
+
+    const namespace = new LoxNamespace(path.basename(file, '.lox'));
+    for (const stmt of statements) {
+      if (!(stmt instanceof Stmt.Export)) continue;
+      const name = stmt.declaration.name.lexeme;
+      namespace.members.set(name, globals.values.get(name) ?? null);
+    }
+    this.cache.set(file, namespace);
+    return namespace;
+  }
+
+  private resolve(specifier: string): string | null {
+    const importerDir = this.currentFile !== null ? path.dirname(this.currentFile) : process.cwd();
+    const candidates = path.isAbsolute(specifier)
+      ? [specifier]
+      : [importerDir, ...this.searchPath].map(dir => path.resolve(dir, specifier));
+    return candidates.find(isFile) ?? null;
+  }
+}
+
+function isFile(file: string): boolean {
+  try {
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
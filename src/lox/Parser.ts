@@ -1,7 +1,8 @@
 import { Token } from './Token';
 import { TokenType } from './TokenType';
 import { Expr, LoxLiteral } from './Expr';
-import { Stmt, StmtVisitor } from './Stmt';
+import { FunctionKind, Stmt, StmtVisitor } from './Stmt';
+import { Span, joinSpans } from '../shared/Span';
 
 export class ParseError extends Error {
   constructor(
@@ -30,9 +31,15 @@ export class Parser {
 
   private declaration(): Stmt | null {
     try {
+      if (this.match(TokenType.IMPORT)) return this.importDeclaration();
+      if (this.match(TokenType.EXPORT)) return this.exportDeclaration();
       if (this.match(TokenType.CLASS)) return this.classDeclaration();
-      if (this.match(TokenType.FUN)) return this.funDeclaration();
-      if (this.match(TokenType.VAR)) return this.varDeclaration();
+      // `fun (` starts an anonymous function expression, not a declaration.
+      if (this.check(TokenType.FUN) && this.peekNext().type !== TokenType.LEFT_PAREN) {
+        this.advance();
+        return this.funDeclaration();
+      }
+      if (this.match(TokenType.VAR, TokenType.CONST)) return this.varDeclaration();
       return this.statement();
     } catch (e) {
       if (e instanceof ParseError) {
@@ -43,29 +50,92 @@ export class Parser {
     }
   }
 
-  private classDeclaration(): Stmt {
+  // `as` and `from` are only special here, so they remain valid names.
+  private importDeclaration(): Stmt {
+    const keyword = this.previous();
+    const names: Token[] = [];
+    if (this.match(TokenType.LEFT_BRACE)) {
+      do {
+        names.push(this.consume(TokenType.IDENTIFIER, "Expect name to import."));
+      } while (this.match(TokenType.COMMA));
+      this.consume(TokenType.RIGHT_BRACE, "Expect '}' after imported names.");
+      this.consumeWord('from', "Expect 'from' after imported names.");
+    }
+    const path = this.consume(TokenType.STRING, "Expect module path string.");
+    let alias: Token | null = null;
+    if (names.length === 0 && this.check(TokenType.IDENTIFIER) && this.peek().lexeme === 'as') {
+      this.advance();
+      alias = this.consume(TokenType.IDENTIFIER, "Expect module name after 'as'.");
+    }
+    this.consume(TokenType.SEMICOLON, "Expect ';' after import.");
+    return this.spanned(new Stmt.Import(keyword, path, alias, names), keyword);
+  }
+
+  private exportDeclaration(): Stmt {
+    const keyword = this.previous();
+    let declaration: Stmt.Var | Stmt.Function | Stmt.Class;
+    if (this.match(TokenType.CLASS)) {
+      declaration = this.classDeclaration();
+    } else if (this.check(TokenType.FUN) && this.peekNext().type === TokenType.IDENTIFIER) {
+      this.advance();
+      declaration = this.funDeclaration();
+    } else if (this.match(TokenType.VAR, TokenType.CONST)) {
+      declaration = this.varDeclaration();
+    } else {
+      throw this.error(this.peek(), "Expect declaration after 'export'.");
+    }
+    return this.spanned(new Stmt.Export(keyword, declaration), keyword);
+  }
+
+  private classDeclaration(): Stmt.Class {
+    const keyword = this.previous();
     const name = this.consume(TokenType.IDENTIFIER, "Expect class name.");
     let superclass: Expr.Variable | null = null;
     if (this.match(TokenType.LESS)) {
       this.consume(TokenType.IDENTIFIER, "Expect superclass name.");
-      superclass = new Expr.Variable(this.previous());
+      superclass = this.spanned(new Expr.Variable(this.previous()), this.previous());
     }
     this.consume(TokenType.LEFT_BRACE, "Expect '{' before class body.");
     const methods: Stmt.Function[] = [];
+    const classMethods: Stmt.Function[] = [];
     while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
-      methods.push(this.function_('method'));
+      const isStatic = this.match(TokenType.CLASS);
+      (isStatic ? classMethods : methods).push(this.method());
     }
     this.consume(TokenType.RIGHT_BRACE, "Expect '}' after class body.");
-    return new Stmt.Class(name, superclass, methods);
+    return this.spanned(new Stmt.Class(name, superclass, methods, classMethods), keyword);
   }
 
-  private funDeclaration(): Stmt {
-    return this.function_('function');
+  private funDeclaration(): Stmt.Function {
+    const keyword = this.previous();
+    return this.spanned(this.function_('function'), keyword);
   }
 
-  private function_(kind: string): Stmt.Function {
+  private function_(kind: string, functionKind = FunctionKind.FUNCTION): Stmt.Function {
     const name = this.consume(TokenType.IDENTIFIER, `Expect ${kind} name.`);
     this.consume(TokenType.LEFT_PAREN, `Expect '(' after ${kind} name.`);
+    const { params, body } = this.functionBody(kind);
+    return this.spanned(new Stmt.Function(name, params, body, functionKind), name);
+  }
+
+  // `set` is only special before a method name, so it stays usable as an
+  // ordinary identifier everywhere else.
+  private method(): Stmt.Function {
+    if (this.check(TokenType.IDENTIFIER) && this.peek().lexeme === 'set'
+      && this.peekNext().type === TokenType.IDENTIFIER) {
+      this.advance();
+      return this.function_('setter', FunctionKind.SETTER);
+    }
+    if (this.peekNext().type === TokenType.LEFT_BRACE) {
+      const name = this.consume(TokenType.IDENTIFIER, "Expect method name.");
+      this.advance();
+      return this.spanned(new Stmt.Function(name, [], this.block(), FunctionKind.GETTER), name);
+    }
+    return this.function_('method');
+  }
+
+  // Parses the parameter list (after its opening paren) and the body.
+  private functionBody(kind: string): { params: Token[]; body: Stmt[] } {
     const params: Token[] = [];
     if (!this.check(TokenType.RIGHT_PAREN)) {
       do {
@@ -74,17 +144,22 @@ export class Parser {
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after parameters.");
     this.consume(TokenType.LEFT_BRACE, `Expect '{' before ${kind} body.`);
-    const body = this.block();
-    return new Stmt.Function(name, params, body);
+    return { params, body: this.block() };
   }
 
-  private varDeclaration(): Stmt {
+  private varDeclaration(): Stmt.Var {
+    const keyword = this.previous();
+    const constant = keyword.type === TokenType.CONST;
     const name = this.consume(TokenType.IDENTIFIER, "Expect variable name.");
-    const initializer: Expr | null = this.match(TokenType.EQUAL)
-      ? this.expression()
-      : null;
+    let initializer: Expr | null = null;
+    if (constant) {
+      this.consume(TokenType.EQUAL, "Expect '=' after constant name.");
+      initializer = this.expression();
+    } else if (this.match(TokenType.EQUAL)) {
+      initializer = this.expression();
+    }
     this.consume(TokenType.SEMICOLON, "Expect ';' after variable declaration.");
-    return new Stmt.Var(name, initializer);
+    return this.spanned(new Stmt.Var(name, initializer, constant), keyword);
   }
 
   private statement(): Stmt {
@@ -93,17 +168,27 @@ export class Parser {
     if (this.match(TokenType.WHILE)) return this.whileStatement();
     if (this.match(TokenType.FOR)) return this.forStatement();
     if (this.match(TokenType.RETURN)) return this.returnStatement();
-    if (this.match(TokenType.LEFT_BRACE)) return new Stmt.Block(this.block());
+    if (this.match(TokenType.BREAK)) return this.loopControlStatement();
+    if (this.match(TokenType.CONTINUE)) return this.loopControlStatement();
+    if (this.match(TokenType.THROW)) return this.throwStatement();
+    if (this.match(TokenType.TRY)) return this.tryStatement();
+    if (this.match(TokenType.MATCH)) return this.matchStatement();
+    if (this.match(TokenType.LEFT_BRACE)) {
+      const brace = this.previous();
+      return this.spanned(new Stmt.Block(this.block()), brace);
+    }
     return this.expressionStatement();
   }
 
   private printStatement(): Stmt {
+    const keyword = this.previous();
     const value = this.expression();
     this.consume(TokenType.SEMICOLON, "Expect ';' after value.");
-    return new Stmt.Print(value);
+    return this.spanned(new Stmt.Print(value), keyword);
   }
 
   private ifStatement(): Stmt {
+    const keyword = this.previous();
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'if'.");
     const condition = this.expression();
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after if condition.");
@@ -111,21 +196,39 @@ export class Parser {
     const thenBranch = this.statement();
     const elseBranch = this.match(TokenType.ELSE) ? this.statement() : null;
 
-    return new Stmt.If(condition, thenBranch, elseBranch);
+    return this.spanned(new Stmt.If(condition, thenBranch, elseBranch), keyword);
   }
 
   private whileStatement(): Stmt {
+    const keyword = this.previous();
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'while'.");
     const condition = this.expression();
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after while condition.");
     const body = this.statement();
 
-    return new Stmt.While(condition, body);
+    return this.spanned(new Stmt.While(keyword, condition, body), keyword);
+  }
+
+  private forInStatement(keyword: Token): Stmt {
+    this.advance(); // var
+    const name = this.consume(TokenType.IDENTIFIER, "Expect variable name.");
+    this.advance(); // in
+    const iterable = this.expression();
+    this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for-in clause.");
+    const body = this.statement();
+    return this.spanned(new Stmt.ForIn(keyword, name, iterable, body), keyword);
   }
 
   private forStatement(): Stmt {
+    const keyword = this.previous();
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'for'.");
 
+    // Like `as` and `from`, `in` is only special in this position.
+    if (this.check(TokenType.VAR) && this.peekAt(2).type === TokenType.IDENTIFIER
+      && this.peekAt(2).lexeme === 'in') {
+      return this.forInStatement(keyword);
+    }
+
     // Parse initializer
     let initializer: Stmt | null;
     if (this.match(TokenType.SEMICOLON)) {
@@ -137,7 +240,7 @@ export class Parser {
     }
 
     // Parse condition
-    let condition: Expr = new Expr.Literal(true);
+    let condition: Expr | null = null;
     if (!this.check(TokenType.SEMICOLON)) {
       condition = this.expression();
     }
@@ -150,20 +253,22 @@ export class Parser {
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for clauses.");
 
-    // Desugar to while loop
+    // Desugar to while loop; synthesized nodes span the whole statement
     let body = this.statement();
+    const span = joinSpans(keyword.span, this.previous().span);
+    const synthesized = <T extends Expr | Stmt>(node: T): T => {
+      node.span = span;
+      return node;
+    };
 
-    // If there's an increment, wrap the body with it
-    if (increment !== null) {
-      body = new Stmt.Block([body, new Stmt.Expression(increment)]);
-    }
-
-    // Create the while loop
-    body = new Stmt.While(condition, body);
+    // Create the while loop. The increment stays separate from the body so
+    // that `continue` still runs it.
+    condition ??= synthesized(new Expr.Literal(true));
+    body = synthesized(new Stmt.While(keyword, condition, body, increment));
 
     // If there's an initializer, wrap everything in a block
     if (initializer !== null) {
-      body = new Stmt.Block([initializer, body]);
+      body = synthesized(new Stmt.Block([initializer, body]));
     }
 
     return body;
@@ -173,7 +278,108 @@ export class Parser {
     const keyword = this.previous();
     const value: Expr | null = this.check(TokenType.SEMICOLON) ? null : this.expression();
     this.consume(TokenType.SEMICOLON, "Expect ';' after return value.");
-    return new Stmt.Return(keyword, value);
+    return this.spanned(new Stmt.Return(keyword, value), keyword);
+  }
+
+  private loopControlStatement(): Stmt {
+    const keyword = this.previous();
+    this.consume(TokenType.SEMICOLON, `Expect ';' after '${keyword.lexeme}'.`);
+    const stmt = keyword.type === TokenType.BREAK
+      ? new Stmt.Break(keyword)
+      : new Stmt.Continue(keyword);
+    return this.spanned(stmt, keyword);
+  }
+
+  private throwStatement(): Stmt {
+    const keyword = this.previous();
+    const value = this.expression();
+    this.consume(TokenType.SEMICOLON, "Expect ';' after thrown value.");
+    return this.spanned(new Stmt.Throw(keyword, value), keyword);
+  }
+
+  private matchStatement(): Stmt {
+    const keyword = this.previous();
+    this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'match'.");
+    const subject = this.expression();
+    this.consume(TokenType.RIGHT_PAREN, "Expect ')' after match value.");
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' before match cases.");
+
+    const cases: Stmt.MatchCase[] = [];
+    let defaultBody: Stmt[] | null = null;
+    while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
+      if (this.match(TokenType.DEFAULT)) {
+        if (defaultBody !== null) this.error(this.previous(), "A match can only have one default case.");
+        this.consume(TokenType.COLON, "Expect ':' after 'default'.");
+        defaultBody = this.caseBody();
+        continue;
+      }
+      const caseKeyword = this.consume(TokenType.CASE, "Expect 'case' or 'default'.");
+      const patterns: Stmt.Pattern[] = [];
+      do {
+        patterns.push(this.pattern());
+      } while (this.match(TokenType.COMMA));
+      this.consume(TokenType.COLON, "Expect ':' after case patterns.");
+      cases.push({ keyword: caseKeyword, patterns, body: this.caseBody() });
+    }
+    this.consume(TokenType.RIGHT_BRACE, "Expect '}' after match cases.");
+    return this.spanned(new Stmt.Match(keyword, subject, cases, defaultBody), keyword);
+  }
+
+  // Like `as` and `from`, `is` is only special at the start of a pattern.
+  private pattern(): Stmt.Pattern {
+    if (this.check(TokenType.IDENTIFIER) && this.peek().lexeme === 'is') {
+      const keyword = this.advance();
+      const name = this.consume(TokenType.IDENTIFIER, "Expect class name after 'is'.");
+      return new Stmt.TypePattern(keyword, this.spanned(new Expr.Variable(name), name));
+    }
+    if (this.match(TokenType.TRUE)) return new Stmt.LiteralPattern(this.previous(), true);
+    if (this.match(TokenType.FALSE)) return new Stmt.LiteralPattern(this.previous(), false);
+    if (this.match(TokenType.NIL)) return new Stmt.LiteralPattern(this.previous(), null);
+    if (this.match(TokenType.STRING)) {
+      return new Stmt.LiteralPattern(this.previous(), this.previous().literal as string);
+    }
+    const negative = this.match(TokenType.MINUS);
+    const number = this.consume(TokenType.NUMBER, "Expect a literal or 'is' pattern.");
+    const value = number.literal as number;
+    return new Stmt.LiteralPattern(number, negative ? -value : value);
+  }
+
+  // A case runs until the next case, the default or the end of the match.
+  private caseBody(): Stmt[] {
+    const statements: Stmt[] = [];
+    while (!this.check(TokenType.CASE) && !this.check(TokenType.DEFAULT)
+      && !this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
+      const decl = this.declaration();
+      if (decl !== null) statements.push(decl);
+    }
+    return statements;
+  }
+
+  private tryStatement(): Stmt {
+    const keyword = this.previous();
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' after 'try'.");
+    const body = this.block();
+
+    let catchName: Token | null = null;
+    let catchBody: Stmt[] | null = null;
+    if (this.match(TokenType.CATCH)) {
+      this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'catch'.");
+      catchName = this.consume(TokenType.IDENTIFIER, "Expect exception variable name.");
+      this.consume(TokenType.RIGHT_PAREN, "Expect ')' after exception variable.");
+      this.consume(TokenType.LEFT_BRACE, "Expect '{' before catch body.");
+      catchBody = this.block();
+    }
+
+    let finallyBody: Stmt[] | null = null;
+    if (this.match(TokenType.FINALLY)) {
+      this.consume(TokenType.LEFT_BRACE, "Expect '{' after 'finally'.");
+      finallyBody = this.block();
+    }
+
+    if (catchBody === null && finallyBody === null) {
+      throw this.error(this.peek(), "Expect 'catch' or 'finally' after try block.");
+    }
+    return this.spanned(new Stmt.Try(keyword, body, catchName, catchBody, finallyBody), keyword);
   }
 
   private block(): Stmt[] {
@@ -189,7 +395,7 @@ export class Parser {
   private expressionStatement(): Stmt {
     const expr = this.expression();
     this.consume(TokenType.SEMICOLON, "Expect ';' after expression.");
-    return new Stmt.Expression(expr);
+    return this.spanned(new Stmt.Expression(expr), expr);
   }
 
   private expression(): Expr {
@@ -197,23 +403,72 @@ export class Parser {
   }
 
   private assignment(): Expr {
-    const expr = this.or();
+    const expr = this.conditional();
 
     if (this.match(TokenType.EQUAL)) {
       const equals = this.previous();
       const value = this.assignment();
 
       if (expr instanceof Expr.Variable) {
-        return new Expr.Assign(expr.name, value);
+        return this.spanned(new Expr.Assign(expr.name, value), expr);
       }
 
       if (expr instanceof Expr.Get) {
-        return new Expr.Set(expr.object, expr.name, value);
+        return this.spanned(new Expr.Set(expr.object, expr.name, value), expr);
+      }
+
+      if (expr instanceof Expr.Index) {
+        return this.spanned(new Expr.IndexSet(expr.object, expr.bracket, expr.index, value), expr);
       }
 
       this.error(equals, 'Invalid assignment target.');
     }
 
+    if (
+      this.match(
+        TokenType.PLUS_EQUAL,
+        TokenType.MINUS_EQUAL,
+        TokenType.STAR_EQUAL,
+        TokenType.SLASH_EQUAL,
+      )
+    ) {
+      const operator = this.previous();
+      const value = this.assignment();
+
+      if (Expr.isTarget(expr)) {
+        return this.spanned(new Expr.CompoundAssign(expr, operator, value), expr);
+      }
+
+      this.error(operator, 'Invalid assignment target.');
+    }
+
+    return expr;
+  }
+
+  private conditional(): Expr {
+    const expr = this.nilCoalesce();
+
+    if (this.match(TokenType.QUESTION)) {
+      const question = this.previous();
+      const thenBranch = this.expression();
+      this.consume(TokenType.COLON, "Expect ':' after then branch of conditional expression.");
+      // Right-associative: a ? b : c ? d : e groups as a ? b : (c ? d : e).
+      const elseBranch = this.conditional();
+      return this.spanned(new Expr.Conditional(expr, question, thenBranch, elseBranch), expr);
+    }
+
+    return expr;
+  }
+
+  private nilCoalesce(): Expr {
+    let expr = this.or();
+
+    while (this.match(TokenType.QUESTION_QUESTION)) {
+      const operator = this.previous();
+      const right = this.or();
+      expr = this.spanned(new Expr.NilCoalesce(expr, operator, right), expr);
+    }
+
     return expr;
   }
 
@@ -223,7 +478,7 @@ export class Parser {
     while (this.match(TokenType.OR)) {
       const operator = this.previous();
       const right = this.and();
-      expr = new Expr.Logical(expr, operator, right);
+      expr = this.spanned(new Expr.Logical(expr, operator, right), expr);
     }
 
     return expr;
@@ -235,7 +490,7 @@ export class Parser {
     while (this.match(TokenType.AND)) {
       const operator = this.previous();
       const right = this.equality();
-      expr = new Expr.Logical(expr, operator, right);
+      expr = this.spanned(new Expr.Logical(expr, operator, right), expr);
     }
 
     return expr;
@@ -247,14 +502,14 @@ export class Parser {
     while (this.match(TokenType.BANG_EQUAL, TokenType.EQUAL_EQUAL)) {
       const operator = this.previous();
       const right = this.comparison();
-      expr = new Expr.Binary(expr, operator, right);
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
     }
 
     return expr;
   }
 
   private comparison(): Expr {
-    let expr = this.term();
+    let expr = this.bitOr();
 
     while (
       this.match(
@@ -264,9 +519,57 @@ export class Parser {
         TokenType.LESS_EQUAL,
       )
     ) {
+      const operator = this.previous();
+      const right = this.bitOr();
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
+    }
+
+    return expr;
+  }
+
+  private bitOr(): Expr {
+    let expr = this.bitXor();
+
+    while (this.match(TokenType.PIPE)) {
+      const operator = this.previous();
+      const right = this.bitXor();
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
+    }
+
+    return expr;
+  }
+
+  private bitXor(): Expr {
+    let expr = this.bitAnd();
+
+    while (this.match(TokenType.CARET)) {
+      const operator = this.previous();
+      const right = this.bitAnd();
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
+    }
+
+    return expr;
+  }
+
+  private bitAnd(): Expr {
+    let expr = this.shift();
+
+    while (this.match(TokenType.AMPERSAND)) {
+      const operator = this.previous();
+      const right = this.shift();
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
+    }
+
+    return expr;
+  }
+
+  private shift(): Expr {
+    let expr = this.term();
+
+    while (this.match(TokenType.LESS_LESS, TokenType.GREATER_GREATER)) {
       const operator = this.previous();
       const right = this.term();
-      expr = new Expr.Binary(expr, operator, right);
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
     }
 
     return expr;
@@ -278,7 +581,7 @@ export class Parser {
     while (this.match(TokenType.MINUS, TokenType.PLUS)) {
       const operator = this.previous();
       const right = this.factor();
-      expr = new Expr.Binary(expr, operator, right);
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
     }
 
     return expr;
@@ -287,23 +590,78 @@ export class Parser {
   private factor(): Expr {
     let expr = this.unary();
 
-    while (this.match(TokenType.SLASH, TokenType.STAR)) {
+    while (this.match(TokenType.SLASH, TokenType.STAR, TokenType.PERCENT)) {
       const operator = this.previous();
       const right = this.unary();
-      expr = new Expr.Binary(expr, operator, right);
+      expr = this.spanned(new Expr.Binary(expr, operator, right), expr);
     }
 
     return expr;
   }
 
   private unary(): Expr {
-    if (this.match(TokenType.BANG, TokenType.MINUS)) {
+    if (this.match(TokenType.BANG, TokenType.MINUS, TokenType.TILDE)) {
       const operator = this.previous();
       const right = this.unary();
-      return new Expr.Unary(operator, right);
+      return this.spanned(new Expr.Unary(operator, right), operator);
     }
 
-    return this.call();
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      const operator = this.previous();
+      const target = this.unary();
+      if (Expr.isTarget(target)) {
+        return this.spanned(new Expr.Increment(target, operator, true), operator);
+      }
+      // `--1` has always meant double negation; keep it that way for operands
+      // that can't be decremented anyway.
+      if (operator.type === TokenType.MINUS_MINUS) return this.doubleNegation(operator, target);
+      this.error(operator, 'Invalid assignment target.');
+      return target;
+    }
+
+    return this.power();
+  }
+
+  // `**` binds tighter than a unary operator on its left, so -2 ** 2 is
+  // -(2 ** 2), and is right-associative: 2 ** 3 ** 2 is 2 ** (3 ** 2).
+  private power(): Expr {
+    const expr = this.postfix();
+
+    if (this.match(TokenType.STAR_STAR)) {
+      const operator = this.previous();
+      const right = this.unary();
+      return this.spanned(new Expr.Binary(expr, operator, right), expr);
+    }
+
+    return expr;
+  }
+
+  private doubleNegation(operator: Token, operand: Expr): Expr {
+    const minus = (offset: number) => new Token(
+      TokenType.MINUS,
+      '-',
+      null,
+      operator.line,
+      operator.column + offset,
+      operator.offset + offset,
+      operator.file,
+    );
+    const inner = this.spanned(new Expr.Unary(minus(1), operand), minus(1));
+    return this.spanned(new Expr.Unary(minus(0), inner), operator);
+  }
+
+  private postfix(): Expr {
+    const expr = this.call();
+
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      const operator = this.previous();
+      if (Expr.isTarget(expr)) {
+        return this.spanned(new Expr.Increment(expr, operator, false), expr);
+      }
+      this.error(operator, 'Invalid assignment target.');
+    }
+
+    return expr;
   }
 
   private call(): Expr {
@@ -319,10 +677,15 @@ export class Parser {
           } while (this.match(TokenType.COMMA));
         }
         this.consume(TokenType.RIGHT_PAREN, "Expect ')' after arguments.");
-        expr = new Expr.Call(expr, paren, args);
+        expr = this.spanned(new Expr.Call(expr, paren, args), expr);
       } else if (this.match(TokenType.DOT)) {
         const name = this.consume(TokenType.IDENTIFIER, "Expect property name after '.'.");
-        expr = new Expr.Get(expr, name);
+        expr = this.spanned(new Expr.Get(expr, name), expr);
+      } else if (this.match(TokenType.LEFT_BRACKET)) {
+        const bracket = this.previous();
+        const index = this.expression();
+        this.consume(TokenType.RIGHT_BRACKET, "Expect ']' after index.");
+        expr = this.spanned(new Expr.Index(expr, bracket, index), expr);
       } else {
         break;
       }
@@ -332,36 +695,79 @@ export class Parser {
   }
 
   private primary(): Expr {
-    if (this.match(TokenType.FALSE)) return new Expr.Literal(false);
-    if (this.match(TokenType.TRUE)) return new Expr.Literal(true);
-    if (this.match(TokenType.NIL)) return new Expr.Literal(null);
+    const start = this.peek();
+
+    if (this.match(TokenType.FALSE)) return this.spanned(new Expr.Literal(false), start);
+    if (this.match(TokenType.TRUE)) return this.spanned(new Expr.Literal(true), start);
+    if (this.match(TokenType.NIL)) return this.spanned(new Expr.Literal(null), start);
 
     if (this.match(TokenType.NUMBER, TokenType.STRING)) {
-      return new Expr.Literal(this.previous().literal as LoxLiteral);
+      return this.spanned(new Expr.Literal(this.previous().literal as LoxLiteral), start);
     }
 
-    if (this.match(TokenType.THIS)) return new Expr.This(this.previous());
+    if (this.match(TokenType.INTERPOLATION)) return this.interpolation(start);
+
+    if (this.match(TokenType.THIS)) return this.spanned(new Expr.This(this.previous()), start);
 
     if (this.match(TokenType.SUPER)) {
       const keyword = this.previous();
       this.consume(TokenType.DOT, "Expect '.' after 'super'.");
       const method = this.consume(TokenType.IDENTIFIER, "Expect superclass method name.");
-      return new Expr.Super(keyword, method);
+      return this.spanned(new Expr.Super(keyword, method), start);
     }
 
     if (this.match(TokenType.IDENTIFIER)) {
-      return new Expr.Variable(this.previous());
+      return this.spanned(new Expr.Variable(this.previous()), start);
     }
 
     if (this.match(TokenType.LEFT_PAREN)) {
       const expr = this.expression();
       this.consume(TokenType.RIGHT_PAREN, "Expect ')' after expression.");
-      return new Expr.Grouping(expr);
+      return this.spanned(new Expr.Grouping(expr), start);
+    }
+
+    if (this.match(TokenType.FUN)) {
+      this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'fun'.");
+      const { params, body } = this.functionBody('function');
+      return this.spanned(new Expr.Function(start, params, body), start);
+    }
+
+    if (this.match(TokenType.LEFT_BRACKET)) {
+      const elements: Expr[] = [];
+      // A trailing comma is allowed: [1, 2, 3,]
+      while (!this.check(TokenType.RIGHT_BRACKET)) {
+        elements.push(this.expression());
+        if (!this.match(TokenType.COMMA)) break;
+      }
+      this.consume(TokenType.RIGHT_BRACKET, "Expect ']' after list elements.");
+      return this.spanned(new Expr.List(start, elements), start);
+    }
+
+    // A brace that starts a statement is always a block (see statement()), so
+    // one that reaches primary() can only be a map literal.
+    if (this.match(TokenType.LEFT_BRACE)) {
+      const keys: Expr[] = [];
+      const values: Expr[] = [];
+      while (!this.check(TokenType.RIGHT_BRACE)) {
+        keys.push(this.expression());
+        this.consume(TokenType.COLON, "Expect ':' after map key.");
+        values.push(this.expression());
+        if (!this.match(TokenType.COMMA)) break;
+      }
+      this.consume(TokenType.RIGHT_BRACE, "Expect '}' after map entries.");
+      return this.spanned(new Expr.Map(start, keys, values), start);
     }
 
     throw this.error(this.peek(), 'Expect expression.');
   }
 
+  // Records on `node` the span from `start` through the last consumed token.
+  private spanned<T extends Expr | Stmt>(node: T, start: Token | Expr | Stmt): T {
+    const first: Span = start instanceof Token ? start.span : start.span!;
+    node.span = joinSpans(first, this.previous().span);
+    return node;
+  }
+
   private match(...types: TokenType[]): boolean {
     for (const type of types) {
       if (this.check(type)) {
@@ -386,6 +792,32 @@ export class Parser {
     return this.tokens[this.current];
   }
 
+  // The scanner splits "a${b}c${d}e" into INTERPOLATION("a"), b,
+  // INTERPOLATION("c"), d, STRING("e"). Empty string parts are dropped.
+  private interpolation(start: Token): Expr {
+    const parts: Expr[] = [];
+    const addPart = (segment: Token) => {
+      if (segment.literal === '') return;
+      parts.push(this.spanned(new Expr.Literal(segment.literal as string), segment));
+    };
+
+    do {
+      addPart(this.previous());
+      parts.push(this.expression());
+    } while (this.match(TokenType.INTERPOLATION));
+
+    addPart(this.consume(TokenType.STRING, "Expect '}' after interpolated expression."));
+    return this.spanned(new Expr.Interpolation(parts), start);
+  }
+
+  private peekNext(): Token {
+    return this.peekAt(1);
+  }
+
+  private peekAt(distance: number): Token {
+    return this.tokens[Math.min(this.current + distance, this.tokens.length - 1)];
+  }
+
   private previous(): Token {
     return this.tokens[this.current - 1];
   }
@@ -399,6 +831,12 @@ export class Parser {
     throw this.error(this.peek(), message);
   }
 
+  // Consumes an identifier that acts as a keyword only in this position.
+  private consumeWord(word: string, message: string): Token {
+    if (this.check(TokenType.IDENTIFIER) && this.peek().lexeme === word) return this.advance();
+    throw this.error(this.peek(), message);
+  }
+
   private error(token: Token, message: string): ParseError {
     const err = new ParseError(token, message);
     this.errors.push(err);
@@ -415,11 +853,21 @@ export class Parser {
         case TokenType.CLASS:
         case TokenType.FUN:
         case TokenType.VAR:
+        case TokenType.CONST:
         case TokenType.FOR:
         case TokenType.IF:
         case TokenType.WHILE:
         case TokenType.PRINT:
         case TokenType.RETURN:
+        case TokenType.BREAK:
+        case TokenType.CONTINUE:
+        case TokenType.THROW:
+        case TokenType.TRY:
+        case TokenType.MATCH:
+        case TokenType.CASE:
+        case TokenType.DEFAULT:
+        case TokenType.IMPORT:
+        case TokenType.EXPORT:
           return;
       }
 
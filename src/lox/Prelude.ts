@@ -0,0 +1,20 @@
+import type { Interpreter } from './Interpreter';
+import { analyze } from './Analysis';
+
+// Builtins that are simplest to define in Lox itself. `Error` is also the
+// class of the instances that `catch` receives for built-in runtime errors.
+const PRELUDE = `
+class Error {
+  init(message) {
+    this.message = message;
+  }
+}
+`;
+
+export function runPrelude(interpreter: Interpreter): void {
+  const { statements, diagnostics } = analyze(PRELUDE, interpreter);
+  if (diagnostics.length > 0) {
+    throw new Error(`Invalid prelude: ${diagnostics[0].message}`);
+  }
+  interpreter.executeBlock(statements, interpreter.builtins);
+}
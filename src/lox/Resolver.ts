@@ -1,7 +1,8 @@
-import { Expr, Visitor } from './Expr';
-import { Stmt, StmtVisitor } from './Stmt';
+import { Expr, LoxLiteral, Visitor } from './Expr';
+import { FunctionKind, Stmt, StmtVisitor } from './Stmt';
 import { Token } from './Token';
 import { Interpreter } from './Interpreter';
+import { Environment } from './Environment';
 
 export class ResolveError extends Error {
   constructor(
@@ -19,6 +20,7 @@ enum FunctionType {
   NONE,
   FUNCTION,
   INITIALIZER,
+  SETTER,
 }
 
 enum ClassType {
@@ -31,16 +33,48 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
   private scopes: Scope[] = [];
   private currentFunction: FunctionType = FunctionType.NONE;
   private currentClass: ClassType = ClassType.NONE;
+  // Number of loops enclosing the current statement within the current
+  // function; `break` and `continue` are only valid when it is non-zero.
+  private loopDepth = 0;
+  // Names declared with `const`, one set per entry of `scopes`, and those
+  // among the globals the code will run in.
+  private constants: Set<string>[] = [];
+  private readonly globalConstants: Set<string>;
+  // Top-level constants of the code being resolved. They join
+  // `globalConstants` through commitConstants, once the code has analysed
+  // cleanly and will actually run.
+  private readonly pendingConstants = new Set<string>();
+  // Those of them whose `const` declaration has been resolved already.
+  private readonly declaredConstants = new Set<string>();
   public readonly errors: ResolveError[] = [];
 
-  constructor(private readonly interpreter: Interpreter) {}
+  constructor(
+    private readonly interpreter: Interpreter,
+    globals: Environment = interpreter.globals,
+  ) {
+    this.globalConstants = globals.constants;
+  }
 
   resolve(statements: Stmt[]): void {
+    // Functions can assign to globals declared after them, so top-level
+    // constants are known before anything is resolved.
+    if (this.scopes.length === 0) {
+      for (const statement of statements) {
+        const declaration = statement instanceof Stmt.Export ? statement.declaration : statement;
+        if (declaration instanceof Stmt.Var && declaration.constant) {
+          this.pendingConstants.add(declaration.name.lexeme);
+        }
+      }
+    }
     for (const statement of statements) {
       this.resolveStmt(statement);
     }
   }
 
+  commitConstants(): void {
+    for (const name of this.pendingConstants) this.globalConstants.add(name);
+  }
+
   private resolveStmt(stmt: Stmt): void {
     stmt.accept(this);
   }
@@ -57,7 +91,10 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
   }
 
   visitVarStmt(stmt: Stmt.Var): void {
-    this.declare(stmt.name);
+    this.declare(stmt.name, stmt.constant);
+    if (stmt.constant && this.scopes.length > 0) {
+      this.constants[this.constants.length - 1].add(stmt.name.lexeme);
+    }
     if (stmt.initializer !== null) {
       this.resolveExpr(stmt.initializer);
     }
@@ -97,6 +134,10 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
         this.errors.push(
           new ResolveError(stmt.keyword, "Can't return a value from an initializer."),
         );
+      } else if (this.currentFunction === FunctionType.SETTER) {
+        this.errors.push(
+          new ResolveError(stmt.keyword, "Can't return a value from a setter."),
+        );
       }
       this.resolveExpr(stmt.value);
     }
@@ -125,11 +166,18 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     this.scopes[this.scopes.length - 1].set('this', true);
 
     for (const method of stmt.methods) {
-      const declaration = method.name.lexeme === 'init'
+      if (method.name.lexeme === 'init' && method.kind === FunctionKind.GETTER) {
+        this.errors.push(new ResolveError(method.name, "An initializer can't be a getter."));
+      }
+      const declaration = method.name.lexeme === 'init' && method.kind === FunctionKind.FUNCTION
         ? FunctionType.INITIALIZER
-        : FunctionType.FUNCTION;
+        : this.methodType(method);
       this.resolveFunction(method, declaration);
     }
+    // A static `init` is an ordinary method: classes are not initialized.
+    for (const method of stmt.classMethods) {
+      this.resolveFunction(method, this.methodType(method));
+    }
 
     this.endScope();
 
@@ -140,9 +188,91 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     this.currentClass = enclosingClass;
   }
 
+  visitForInStmt(stmt: Stmt.ForIn): void {
+    this.resolveExpr(stmt.iterable);
+    this.loopDepth++;
+    this.beginScope();
+    this.declare(stmt.name);
+    this.define(stmt.name);
+    this.resolveStmt(stmt.body);
+    this.endScope();
+    this.loopDepth--;
+  }
+
   visitWhileStmt(stmt: Stmt.While): void {
     this.resolveExpr(stmt.condition);
+    this.loopDepth++;
     this.resolveStmt(stmt.body);
+    this.loopDepth--;
+    if (stmt.increment !== null) this.resolveExpr(stmt.increment);
+  }
+
+  visitBreakStmt(stmt: Stmt.Break): void {
+    this.checkInLoop(stmt.keyword);
+  }
+
+  visitContinueStmt(stmt: Stmt.Continue): void {
+    this.checkInLoop(stmt.keyword);
+  }
+
+  visitImportStmt(stmt: Stmt.Import): void {
+    this.checkTopLevel(stmt.keyword, 'Imports');
+    for (const name of stmt.alias !== null ? [stmt.alias] : stmt.names) {
+      this.declare(name);
+      this.define(name);
+    }
+  }
+
+  visitExportStmt(stmt: Stmt.Export): void {
+    this.checkTopLevel(stmt.keyword, 'Exports');
+    this.resolveStmt(stmt.declaration);
+  }
+
+  visitThrowStmt(stmt: Stmt.Throw): void {
+    this.resolveExpr(stmt.value);
+  }
+
+  // Literal patterns must be distinct across all cases; each case body is
+  // resolved in its own scope.
+  visitMatchStmt(stmt: Stmt.Match): void {
+    this.resolveExpr(stmt.subject);
+    const seen = new Set<LoxLiteral>();
+    for (const matchCase of stmt.cases) {
+      for (const pattern of matchCase.patterns) {
+        if (pattern instanceof Stmt.TypePattern) {
+          this.resolveExpr(pattern.klass);
+        } else if (seen.has(pattern.value)) {
+          this.errors.push(new ResolveError(pattern.token,
+            `Duplicate case ${this.describeLiteral(pattern.value)} in match.`));
+        } else {
+          seen.add(pattern.value);
+        }
+      }
+      this.resolveCaseBody(matchCase.body);
+    }
+    if (stmt.defaultBody !== null) this.resolveCaseBody(stmt.defaultBody);
+  }
+
+  // Each block gets its own scope, and the catch variable is visible only
+  // inside the catch body.
+  visitTryStmt(stmt: Stmt.Try): void {
+    this.beginScope();
+    this.resolve(stmt.body);
+    this.endScope();
+
+    if (stmt.catchBody !== null) {
+      this.beginScope();
+      this.declare(stmt.catchName!);
+      this.define(stmt.catchName!);
+      this.resolve(stmt.catchBody);
+      this.endScope();
+    }
+
+    if (stmt.finallyBody !== null) {
+      this.beginScope();
+      this.resolve(stmt.finallyBody);
+      this.endScope();
+    }
   }
 
   // --- Expr visitors ---
@@ -163,6 +293,7 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
 
   visitAssignExpr(expr: Expr.Assign): void {
     this.resolveExpr(expr.value);
+    this.checkAssignable(expr.name);
     this.resolveLocal(expr, expr.name);
   }
 
@@ -191,6 +322,28 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     this.resolveExpr(expr.right);
   }
 
+  visitCompoundAssignExpr(expr: Expr.CompoundAssign): void {
+    this.resolveExpr(expr.value);
+    if (expr.target instanceof Expr.Variable) this.checkAssignable(expr.target.name);
+    this.resolveExpr(expr.target);
+  }
+
+  visitIncrementExpr(expr: Expr.Increment): void {
+    if (expr.target instanceof Expr.Variable) this.checkAssignable(expr.target.name);
+    this.resolveExpr(expr.target);
+  }
+
+  visitConditionalExpr(expr: Expr.Conditional): void {
+    this.resolveExpr(expr.condition);
+    this.resolveExpr(expr.thenBranch);
+    this.resolveExpr(expr.elseBranch);
+  }
+
+  visitNilCoalesceExpr(expr: Expr.NilCoalesce): void {
+    this.resolveExpr(expr.left);
+    this.resolveExpr(expr.right);
+  }
+
   visitUnaryExpr(expr: Expr.Unary): void {
     this.resolveExpr(expr.right);
   }
@@ -204,6 +357,40 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     this.resolveExpr(expr.object);
   }
 
+  visitFunctionExpr(expr: Expr.Function): void {
+    this.resolveFunction(expr, FunctionType.FUNCTION);
+  }
+
+  visitInterpolationExpr(expr: Expr.Interpolation): void {
+    for (const part of expr.parts) {
+      this.resolveExpr(part);
+    }
+  }
+
+  visitListExpr(expr: Expr.List): void {
+    for (const element of expr.elements) {
+      this.resolveExpr(element);
+    }
+  }
+
+  visitMapExpr(expr: Expr.Map): void {
+    expr.keys.forEach((key, i) => {
+      this.resolveExpr(key);
+      this.resolveExpr(expr.values[i]);
+    });
+  }
+
+  visitIndexExpr(expr: Expr.Index): void {
+    this.resolveExpr(expr.object);
+    this.resolveExpr(expr.index);
+  }
+
+  visitIndexSetExpr(expr: Expr.IndexSet): void {
+    this.resolveExpr(expr.value);
+    this.resolveExpr(expr.object);
+    this.resolveExpr(expr.index);
+  }
+
   visitThisExpr(expr: Expr.This): void {
     if (this.currentClass === ClassType.NONE) {
       this.errors.push(
@@ -228,16 +415,62 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
   }
 
   // --- Helper methods ---
+  private resolveCaseBody(body: Stmt[]): void {
+    this.beginScope();
+    this.resolve(body);
+    this.endScope();
+  }
+
+  private describeLiteral(value: LoxLiteral): string {
+    if (value === null) return 'nil';
+    if (typeof value === 'string') return `"${value}"`;
+    return String(value);
+  }
+
+  private checkTopLevel(keyword: Token, what: string): void {
+    if (this.scopes.length > 0) {
+      this.errors.push(new ResolveError(keyword, `${what} must be at the top level of a file.`));
+    }
+  }
+
+  private methodType(method: Stmt.Function): FunctionType {
+    if (method.kind !== FunctionKind.SETTER) return FunctionType.FUNCTION;
+    if (method.params.length !== 1) {
+      this.errors.push(new ResolveError(method.name, 'A setter must have exactly one parameter.'));
+    }
+    return FunctionType.SETTER;
+  }
+
   private beginScope(): void {
     this.scopes.push(new Map());
+    this.constants.push(new Set());
   }
 
   private endScope(): void {
     this.scopes.pop();
+    this.constants.pop();
   }
 
-  private declare(name: Token): void {
-    if (this.scopes.length === 0) return;
+  // The innermost declaration of `name` decides, as in resolveLocal.
+  private checkAssignable(name: Token): void {
+    let constant = this.globalConstants.has(name.lexeme)
+      || this.pendingConstants.has(name.lexeme);
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name.lexeme)) {
+        constant = this.constants[i].has(name.lexeme);
+        break;
+      }
+    }
+    if (constant) {
+      this.errors.push(new ResolveError(name, `Cannot assign to constant '${name.lexeme}'.`));
+    }
+  }
+
+  private declare(name: Token, constant = false): void {
+    if (this.scopes.length === 0) {
+      this.declareGlobal(name, constant);
+      return;
+    }
     const scope = this.scopes[this.scopes.length - 1];
     if (scope.has(name.lexeme)) {
       this.errors.push(
@@ -250,6 +483,18 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     scope.set(name.lexeme, false); // declared but not yet initialized
   }
 
+  // Any declaration of a global constant's name would replace it, except
+  // the one `const` that introduces it.
+  private declareGlobal(name: Token, constant: boolean): void {
+    const redeclared = this.globalConstants.has(name.lexeme)
+      || this.declaredConstants.has(name.lexeme)
+      || (!constant && this.pendingConstants.has(name.lexeme));
+    if (redeclared) {
+      this.errors.push(new ResolveError(name, `Cannot redeclare constant '${name.lexeme}'.`));
+    }
+    if (constant) this.declaredConstants.add(name.lexeme);
+  }
+
   private define(name: Token): void {
     if (this.scopes.length === 0) return;
     this.scopes[this.scopes.length - 1].set(name.lexeme, true);
@@ -265,9 +510,19 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     // Not found in any local scope — it's global.
   }
 
-  private resolveFunction(fn: Stmt.Function, type: FunctionType): void {
+  private checkInLoop(keyword: Token): void {
+    if (this.loopDepth === 0) {
+      this.errors.push(
+        new ResolveError(keyword, `Can't use '${keyword.lexeme}' outside of a loop.`),
+      );
+    }
+  }
+
+  private resolveFunction(fn: Stmt.Function | Expr.Function, type: FunctionType): void {
     const enclosing = this.currentFunction;
+    const enclosingLoopDepth = this.loopDepth;
     this.currentFunction = type;
+    this.loopDepth = 0;
     this.beginScope();
     for (const param of fn.params) {
       this.declare(param);
@@ -276,5 +531,6 @@ export class Resolver implements Visitor<void>, StmtVisitor<void> {
     this.resolve(fn.body);
     this.endScope();
     this.currentFunction = enclosing;
+    this.loopDepth = enclosingLoopDepth;
   }
 }
@@ -0,0 +1,63 @@
+import { Interpreter, LoxValue } from './Interpreter';
+import { analyze } from './Analysis';
+import { RuntimeError } from './RuntimeError';
+import { Diagnostic, runtimeDiagnostics } from './Diagnostic';
+import { ModuleLoader, ModuleOptions } from './ModuleLoader';
+import { Writer, CallbackWriter } from '../shared/Writer';
+import { ExecutionLimits } from '../shared/ExecutionBudget';
+
+export enum RunStatus {
+  OK,
+  COMPILE_ERROR,
+  RUNTIME_ERROR,
+}
+
+export interface RunOptions {
+  // Extra global bindings made visible to the script.
+  globals?: Record<string, LoxValue>;
+  // Receives every `print`, in addition to capturing it in `output`.
+  stdout?: Writer;
+  // Step, time, cancellation and call-depth limits for untrusted scripts.
+  limits?: ExecutionLimits;
+  // Where the script's `import`s are looked up.
+  modules?: ModuleOptions;
+}
+
+export interface RunResult {
+  status: RunStatus;
+  diagnostics: Diagnostic[];
+  output: string[];
+}
+
+/**
+ * Scans, parses, resolves and interprets `source` without writing to the
+ * console or exiting the process. Static errors stop the run before any
+ * code executes; a runtime error stops it at the failing statement.
+ */
+export function runLox(source: string, options: RunOptions = {}): RunResult {
+  const output: string[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const result = (status: RunStatus): RunResult => ({ status, diagnostics, output });
+
+  const interpreter = new Interpreter(new CallbackWriter(text => {
+    output.push(text);
+    options.stdout?.writeLine(text);
+  }), options.limits, new ModuleLoader(options.modules));
+  for (const [name, value] of Object.entries(options.globals ?? {})) {
+    interpreter.globals.define(name, value);
+  }
+
+  const { statements, diagnostics: staticErrors } = analyze(source, interpreter);
+  diagnostics.push(...staticErrors);
+  if (diagnostics.length > 0) return result(RunStatus.COMPILE_ERROR);
+
+  try {
+    interpreter.interpret(statements);
+  } catch (e) {
+    if (!(e instanceof RuntimeError)) throw e;
+    diagnostics.push(...runtimeDiagnostics(e));
+    return result(RunStatus.RUNTIME_ERROR);
+  }
+
+  return result(RunStatus.OK);
+}
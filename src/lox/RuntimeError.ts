@@ -1,6 +1,19 @@
 import { Token } from './Token';
+import type { LoxValue } from './Interpreter';
+import type { Diagnostic } from './Diagnostic';
+
+// One entry of a Lox call stack. `line` is where that frame was executing
+// when the error was raised. The outermost frame, the top-level script, has
+// a null name so it cannot be confused with a function called `script`.
+export interface StackFrame {
+  name: string | null;
+  line: number;
+}
 
 export class RuntimeError extends Error {
+  // Innermost frame first; filled in by the Interpreter as the error unwinds.
+  stackTrace: StackFrame[] | null = null;
+
   constructor(
     public readonly token: Token,
     message: string,
@@ -8,3 +21,57 @@ export class RuntimeError extends Error {
     super(message);
   }
 }
+
+// Frames printed at each end of a long trace; the ones in between, usually
+// the same recursive call over and over, are summarised in a single line.
+const TRACE_EDGE = 10;
+
+export function formatStackTrace(frames: StackFrame[]): string[] {
+  if (frames.length <= TRACE_EDGE * 2 + 1) return frames.map(formatFrame);
+  return [
+    ...frames.slice(0, TRACE_EDGE).map(formatFrame),
+    `... ${frames.length - TRACE_EDGE * 2} more frames`,
+    ...frames.slice(-TRACE_EDGE).map(formatFrame),
+  ];
+}
+
+function formatFrame(frame: StackFrame): string {
+  return frame.name === null
+    ? `[line ${frame.line}] in script`
+    : `[line ${frame.line}] in ${frame.name}()`;
+}
+
+// Raised when a run exhausts its ExecutionLimits.
+export class BudgetExceededError extends RuntimeError {}
+
+// Raised when Lox calls nest deeper than the configured maximum.
+export class StackOverflowError extends RuntimeError {
+  constructor(token: Token) {
+    super(token, 'Stack overflow.');
+  }
+}
+
+// Raised at an import whose module has static errors. Those are kept for
+// reporting, since the module's code never runs.
+export class ModuleError extends RuntimeError {
+  constructor(
+    token: Token,
+    message: string,
+    public readonly diagnostics: Diagnostic[],
+  ) {
+    super(token, message);
+  }
+}
+
+// Carries a value raised by a Lox `throw` statement out to the nearest
+// enclosing `catch`. If none catches it, it is reported like any other
+// runtime error.
+export class ThrownError extends RuntimeError {
+  constructor(
+    token: Token,
+    public readonly value: LoxValue,
+    description: string,
+  ) {
+    super(token, `Uncaught ${description}.`);
+  }
+}
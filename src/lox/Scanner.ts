@@ -1,45 +1,86 @@
-import { Token } from './Token';
+import { SourceFile, Token } from './Token';
 import { TokenType } from './TokenType';
+import { Span, spanOf } from '../shared/Span';
+import { EscapeError, unescapeString } from '../shared/StringEscapes';
 
 const KEYWORDS: Record<string, TokenType> = {
   and: TokenType.AND,
+  break: TokenType.BREAK,
+  case: TokenType.CASE,
+  catch: TokenType.CATCH,
   class: TokenType.CLASS,
+  const: TokenType.CONST,
+  continue: TokenType.CONTINUE,
+  default: TokenType.DEFAULT,
   else: TokenType.ELSE,
+  export: TokenType.EXPORT,
   false: TokenType.FALSE,
+  finally: TokenType.FINALLY,
   for: TokenType.FOR,
   fun: TokenType.FUN,
   if: TokenType.IF,
+  import: TokenType.IMPORT,
+  match: TokenType.MATCH,
   nil: TokenType.NIL,
   or: TokenType.OR,
   print: TokenType.PRINT,
   return: TokenType.RETURN,
   super: TokenType.SUPER,
   this: TokenType.THIS,
+  throw: TokenType.THROW,
   true: TokenType.TRUE,
+  try: TokenType.TRY,
   var: TokenType.VAR,
   while: TokenType.WHILE,
 };
 
+export class ScanError extends Error {
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(
+    public readonly span: Span,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ScanError';
+    this.line = span.line;
+    this.column = span.column;
+  }
+}
+
 export class Scanner {
   private readonly source: string;
   private readonly tokens: Token[] = [];
-  public readonly errors: string[] = [];
+  public readonly errors: ScanError[] = [];
 
   private start = 0;
   private current = 0;
   private line = 1;
+  private lineStart = 0;    // offset of the first character of `line`
+  private startLine = 1;    // position of `start`, for multi-line tokens
+  private startColumn = 1;
+  // One entry per `${` we're inside of, counting the braces opened within it
+  // so that the `}` closing the interpolation can be told apart.
+  private readonly interpolations: number[] = [];
 
-  constructor(source: string) {
+  constructor(
+    source: string,
+    private readonly file: SourceFile | null = null,
+  ) {
     this.source = source;
   }
 
   scanTokens(): Token[] {
     while (!this.isAtEnd()) {
       this.start = this.current;
+      this.startLine = this.line;
+      this.startColumn = this.current - this.lineStart + 1;
       this.scanToken();
     }
 
-    this.tokens.push(new Token(TokenType.EOF, '', null, this.line));
+    const column = this.current - this.lineStart + 1;
+    this.tokens.push(new Token(TokenType.EOF, '', null, this.line, column, this.current, this.file));
     return this.tokens;
   }
 
@@ -53,11 +94,28 @@ export class Scanner {
         this.addToken(TokenType.RIGHT_PAREN);
         break;
       case '{':
+        if (this.interpolations.length > 0) this.interpolations[this.interpolations.length - 1]++;
         this.addToken(TokenType.LEFT_BRACE);
         break;
       case '}':
+        if (this.interpolations.length > 0) {
+          const depth = this.interpolations.length - 1;
+          if (this.interpolations[depth] === 0) {
+            // Closes `${...}`: carry on with the rest of the string.
+            this.interpolations.pop();
+            this.string();
+            break;
+          }
+          this.interpolations[depth]--;
+        }
         this.addToken(TokenType.RIGHT_BRACE);
         break;
+      case '[':
+        this.addToken(TokenType.LEFT_BRACKET);
+        break;
+      case ']':
+        this.addToken(TokenType.RIGHT_BRACKET);
+        break;
       case ',':
         this.addToken(TokenType.COMMA);
         break;
@@ -65,16 +123,37 @@ export class Scanner {
         this.addToken(TokenType.DOT);
         break;
       case '-':
-        this.addToken(TokenType.MINUS);
+        if (this.match('-')) this.addToken(TokenType.MINUS_MINUS);
+        else this.addToken(this.match('=') ? TokenType.MINUS_EQUAL : TokenType.MINUS);
         break;
       case '+':
-        this.addToken(TokenType.PLUS);
+        if (this.match('+')) this.addToken(TokenType.PLUS_PLUS);
+        else this.addToken(this.match('=') ? TokenType.PLUS_EQUAL : TokenType.PLUS);
         break;
       case ';':
         this.addToken(TokenType.SEMICOLON);
         break;
+      case ':':
+        this.addToken(TokenType.COLON);
+        break;
       case '*':
-        this.addToken(TokenType.STAR);
+        if (this.match('*')) this.addToken(TokenType.STAR_STAR);
+        else this.addToken(this.match('=') ? TokenType.STAR_EQUAL : TokenType.STAR);
+        break;
+      case '%':
+        this.addToken(TokenType.PERCENT);
+        break;
+      case '&':
+        this.addToken(TokenType.AMPERSAND);
+        break;
+      case '|':
+        this.addToken(TokenType.PIPE);
+        break;
+      case '^':
+        this.addToken(TokenType.CARET);
+        break;
+      case '~':
+        this.addToken(TokenType.TILDE);
         break;
       case '!':
         this.addToken(this.match('=') ? TokenType.BANG_EQUAL : TokenType.BANG);
@@ -83,10 +162,15 @@ export class Scanner {
         this.addToken(this.match('=') ? TokenType.EQUAL_EQUAL : TokenType.EQUAL);
         break;
       case '<':
-        this.addToken(this.match('=') ? TokenType.LESS_EQUAL : TokenType.LESS);
+        if (this.match('<')) this.addToken(TokenType.LESS_LESS);
+        else this.addToken(this.match('=') ? TokenType.LESS_EQUAL : TokenType.LESS);
         break;
       case '>':
-        this.addToken(this.match('=') ? TokenType.GREATER_EQUAL : TokenType.GREATER);
+        if (this.match('>')) this.addToken(TokenType.GREATER_GREATER);
+        else this.addToken(this.match('=') ? TokenType.GREATER_EQUAL : TokenType.GREATER);
+        break;
+      case '?':
+        this.addToken(this.match('?') ? TokenType.QUESTION_QUESTION : TokenType.QUESTION);
         break;
       case '/':
         if (this.match('/')) {
@@ -95,7 +179,7 @@ export class Scanner {
             this.advance();
           }
         } else {
-          this.addToken(TokenType.SLASH);
+          this.addToken(this.match('=') ? TokenType.SLASH_EQUAL : TokenType.SLASH);
         }
         break;
       case ' ':
@@ -104,7 +188,7 @@ export class Scanner {
         // Ignore whitespace
         break;
       case '\n':
-        this.line++;
+        this.newline();
         break;
       case '"':
         this.string();
@@ -115,20 +199,37 @@ export class Scanner {
         } else if (this.isAlpha(c)) {
           this.identifier();
         } else {
-          this.errors.push(`[line ${this.line}] Error: Unexpected character '${c}'.`);
+          this.error(`Unexpected character '${c}'.`);
         }
         break;
     }
   }
 
+  // Scans the body of a string up to its closing quote, or up to a `${` that
+  // starts an interpolated expression. The token starts at a one-character
+  // delimiter: the opening quote, or the `}` that closed an interpolation.
   private string(): void {
     while (this.peek() !== '"' && !this.isAtEnd()) {
-      if (this.peek() === '\n') this.line++;
-      this.advance();
+      if (this.peek() === '$' && this.peekNext() === '{') {
+        const body = this.source.slice(this.start + 1, this.current);
+        this.advance();
+        this.advance();
+        this.interpolations.push(0);
+        this.addStringToken(TokenType.INTERPOLATION, body);
+        return;
+      }
+
+      const c = this.advance();
+      // Skip the escaped character so that \" doesn't end the string.
+      if (c === '\\' && !this.isAtEnd()) {
+        if (this.advance() === '\n') this.newline();
+      } else if (c === '\n') {
+        this.newline();
+      }
     }
 
     if (this.isAtEnd()) {
-      this.errors.push(`[line ${this.line}] Error: Unterminated string.`);
+      this.error('Unterminated string.');
       return;
     }
 
@@ -136,8 +237,31 @@ export class Scanner {
     this.advance();
 
     // Trim surrounding quotes
-    const value = this.source.slice(this.start + 1, this.current - 1);
-    this.addTokenWithLiteral(TokenType.STRING, value);
+    this.addStringToken(TokenType.STRING, this.source.slice(this.start + 1, this.current - 1));
+  }
+
+  // A raw string, r"...", has no escapes or interpolation.
+  private rawString(): void {
+    while (this.peek() !== '"' && !this.isAtEnd()) {
+      if (this.advance() === '\n') this.newline();
+    }
+
+    if (this.isAtEnd()) {
+      this.error('Unterminated string.');
+      return;
+    }
+
+    this.advance();
+    this.addTokenWithLiteral(TokenType.STRING, this.source.slice(this.start + 2, this.current - 1));
+  }
+
+  private addStringToken(type: TokenType, body: string): void {
+    try {
+      this.addTokenWithLiteral(type, unescapeString(body));
+    } catch (e) {
+      if (!(e instanceof EscapeError)) throw e;
+      this.error(e.message);
+    }
   }
 
   private number(): void {
@@ -158,6 +282,10 @@ export class Scanner {
     while (this.isAlphaNumeric(this.peek())) this.advance();
 
     const text = this.source.slice(this.start, this.current);
+    if (text === 'r' && this.match('"')) {
+      this.rawString();
+      return;
+    }
     const type = KEYWORDS[text] ?? TokenType.IDENTIFIER;
     this.addToken(type);
   }
@@ -189,7 +317,19 @@ export class Scanner {
 
   private addTokenWithLiteral(type: TokenType, literal: unknown): void {
     const lexeme = this.source.slice(this.start, this.current);
-    this.tokens.push(new Token(type, lexeme, literal, this.line));
+    this.tokens.push(new Token(type, lexeme, literal, this.startLine, this.startColumn, this.start, this.file));
+  }
+
+  // Reports an error covering the text of the current token so far.
+  private error(message: string): void {
+    const text = this.source.slice(this.start, this.current);
+    this.errors.push(new ScanError(spanOf(text, this.start, this.startLine, this.startColumn), message));
+  }
+
+  // Call after consuming a '\n'.
+  private newline(): void {
+    this.line++;
+    this.lineStart = this.current;
   }
 
   private isAtEnd(): boolean {
@@ -1,5 +1,6 @@
-import { Expr } from './Expr';
+import { Expr, LoxLiteral } from './Expr';
 import { Token } from './Token';
+import type { Span } from '../shared/Span';
 
 export interface StmtVisitor<R> {
   visitExpressionStmt(stmt: Stmt.Expression): R;
@@ -8,12 +9,32 @@ export interface StmtVisitor<R> {
   visitBlockStmt(stmt: Stmt.Block): R;
   visitIfStmt(stmt: Stmt.If): R;
   visitWhileStmt(stmt: Stmt.While): R;
+  visitForInStmt(stmt: Stmt.ForIn): R;
   visitFunctionStmt(stmt: Stmt.Function): R;
   visitReturnStmt(stmt: Stmt.Return): R;
+  visitBreakStmt(stmt: Stmt.Break): R;
+  visitContinueStmt(stmt: Stmt.Continue): R;
+  visitThrowStmt(stmt: Stmt.Throw): R;
+  visitTryStmt(stmt: Stmt.Try): R;
+  visitMatchStmt(stmt: Stmt.Match): R;
   visitClassStmt(stmt: Stmt.Class): R;
+  visitImportStmt(stmt: Stmt.Import): R;
+  visitExportStmt(stmt: Stmt.Export): R;
+}
+
+// Methods may also be declared as property accessors: a getter has no
+// parameter list and runs on `obj.name`, a setter (`set name(value)`) runs
+// on `obj.name = value`.
+export enum FunctionKind {
+  FUNCTION,
+  GETTER,
+  SETTER,
 }
 
 export abstract class Stmt {
+  // Source range of the node; set by the Parser.
+  span: Span | null = null;
+
   abstract accept<R>(visitor: StmtVisitor<R>): R;
 }
 
@@ -42,6 +63,8 @@ export namespace Stmt {
     constructor(
       public readonly name: Token,
       public readonly initializer: Expr | null,
+      // Declared with `const`: always initialized, never reassigned.
+      public readonly constant: boolean = false,
     ) {
       super();
     }
@@ -77,8 +100,12 @@ export namespace Stmt {
 
   export class While extends Stmt {
     constructor(
+      public readonly keyword: Token,
       public readonly condition: Expr,
       public readonly body: Stmt,
+      // Run after every iteration, including ones cut short by `continue`.
+      // Only set for loops desugared from `for`.
+      public readonly increment: Expr | null = null,
     ) {
       super();
     }
@@ -88,11 +115,28 @@ export namespace Stmt {
     }
   }
 
+  // `for (var name in iterable) body`; `name` is bound afresh for each value.
+  export class ForIn extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly name: Token,
+      public readonly iterable: Expr,
+      public readonly body: Stmt,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitForInStmt(this);
+    }
+  }
+
   export class Function extends Stmt {
     constructor(
       public readonly name: Token,
       public readonly params: Token[],
       public readonly body: Stmt[],
+      public readonly kind: FunctionKind = FunctionKind.FUNCTION,
     ) {
       super();
     }
@@ -115,11 +159,104 @@ export namespace Stmt {
     }
   }
 
+  export class Break extends Stmt {
+    constructor(public readonly keyword: Token) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitBreakStmt(this);
+    }
+  }
+
+  export class Continue extends Stmt {
+    constructor(public readonly keyword: Token) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitContinueStmt(this);
+    }
+  }
+
+  export class Throw extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly value: Expr,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitThrowStmt(this);
+    }
+  }
+
+  // At least one of `catchBody` and `finallyBody` is present; `catchName` is
+  // set exactly when `catchBody` is.
+  export class Try extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly body: Stmt[],
+      public readonly catchName: Token | null,
+      public readonly catchBody: Stmt[] | null,
+      public readonly finallyBody: Stmt[] | null,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitTryStmt(this);
+    }
+  }
+
+  // The first case with a matching pattern runs; there is no fall-through.
+  export class Match extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly subject: Expr,
+      public readonly cases: Stmt.MatchCase[],
+      public readonly defaultBody: Stmt[] | null,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitMatchStmt(this);
+    }
+  }
+
+  export interface MatchCase {
+    keyword: Token;
+    patterns: Stmt.Pattern[];
+    body: Stmt[];
+  }
+
+  export type Pattern = Stmt.LiteralPattern | Stmt.TypePattern;
+
+  // Matches a value equal to `value`; `token` is the literal in the source.
+  export class LiteralPattern {
+    constructor(
+      public readonly token: Token,
+      public readonly value: LoxLiteral,
+    ) {}
+  }
+
+  // `is Name` matches instances of that class and of its subclasses.
+  export class TypePattern {
+    constructor(
+      public readonly keyword: Token,
+      public readonly klass: Expr.Variable,
+    ) {}
+  }
+
   export class Class extends Stmt {
     constructor(
       public readonly name: Token,
       public readonly superclass: Expr.Variable | null,
       public readonly methods: Stmt.Function[],
+      // Declared with a leading `class` and called on the class itself.
+      public readonly classMethods: Stmt.Function[] = [],
     ) {
       super();
     }
@@ -128,4 +265,35 @@ export namespace Stmt {
       return visitor.visitClassStmt(this);
     }
   }
+
+  // `import "path" as alias;` binds the module value, `import { a, b } from
+  // "path";` binds the named exports, and a bare `import "path";` only runs
+  // the module.
+  export class Import extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly path: Token,
+      public readonly alias: Token | null,
+      public readonly names: Token[],
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitImportStmt(this);
+    }
+  }
+
+  export class Export extends Stmt {
+    constructor(
+      public readonly keyword: Token,
+      public readonly declaration: Stmt.Var | Stmt.Function | Stmt.Class,
+    ) {
+      super();
+    }
+
+    accept<R>(visitor: StmtVisitor<R>): R {
+      return visitor.visitExportStmt(this);
+    }
+  }
 }
@@ -1,4 +1,12 @@
 import { TokenType } from './TokenType';
+import { Span, spanOf } from '../shared/Span';
+
+// An imported module's path and text, kept on its tokens so that errors
+// raised in its code can be shown against it rather than the main script.
+export interface SourceFile {
+  path: string;
+  text: string;
+}
 
 export class Token {
   constructor(
@@ -6,8 +14,15 @@ export class Token {
     public readonly lexeme: string,
     public readonly literal: unknown, // null | number | string | boolean
     public readonly line: number,
+    public readonly column: number = 0,
+    public readonly offset: number = 0,
+    public readonly file: SourceFile | null = null,
   ) {}
 
+  get span(): Span {
+    return spanOf(this.lexeme, this.offset, this.line, this.column);
+  }
+
   toString(): string {
     return `${this.type} ${this.lexeme} ${this.literal}`;
   }
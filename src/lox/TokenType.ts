@@ -4,16 +4,30 @@ export enum TokenType {
   RIGHT_PAREN = 'RIGHT_PAREN',
   LEFT_BRACE = 'LEFT_BRACE',
   RIGHT_BRACE = 'RIGHT_BRACE',
+  LEFT_BRACKET = 'LEFT_BRACKET',
+  RIGHT_BRACKET = 'RIGHT_BRACKET',
   COMMA = 'COMMA',
+  COLON = 'COLON',
   DOT = 'DOT',
   MINUS = 'MINUS',
   PLUS = 'PLUS',
   SEMICOLON = 'SEMICOLON',
   SLASH = 'SLASH',
   STAR = 'STAR',
+  PERCENT = 'PERCENT',
+  AMPERSAND = 'AMPERSAND',
+  PIPE = 'PIPE',
+  CARET = 'CARET',
+  TILDE = 'TILDE',
 
   // One or two character tokens
   BANG = 'BANG',
+  PLUS_EQUAL = 'PLUS_EQUAL',
+  PLUS_PLUS = 'PLUS_PLUS',
+  MINUS_EQUAL = 'MINUS_EQUAL',
+  MINUS_MINUS = 'MINUS_MINUS',
+  STAR_EQUAL = 'STAR_EQUAL',
+  SLASH_EQUAL = 'SLASH_EQUAL',
   BANG_EQUAL = 'BANG_EQUAL',
   EQUAL = 'EQUAL',
   EQUAL_EQUAL = 'EQUAL_EQUAL',
@@ -21,27 +35,46 @@ export enum TokenType {
   GREATER_EQUAL = 'GREATER_EQUAL',
   LESS = 'LESS',
   LESS_EQUAL = 'LESS_EQUAL',
+  LESS_LESS = 'LESS_LESS',
+  GREATER_GREATER = 'GREATER_GREATER',
+  STAR_STAR = 'STAR_STAR',
+  QUESTION = 'QUESTION',
+  QUESTION_QUESTION = 'QUESTION_QUESTION',
 
   // Literals
   IDENTIFIER = 'IDENTIFIER',
   STRING = 'STRING',
+  // The part of an interpolated string before a `${`, e.g. `"Hi ${`.
+  INTERPOLATION = 'INTERPOLATION',
   NUMBER = 'NUMBER',
 
   // Keywords
   AND = 'AND',
+  BREAK = 'BREAK',
+  CASE = 'CASE',
+  CATCH = 'CATCH',
   CLASS = 'CLASS',
+  CONST = 'CONST',
+  CONTINUE = 'CONTINUE',
+  DEFAULT = 'DEFAULT',
   ELSE = 'ELSE',
+  EXPORT = 'EXPORT',
   FALSE = 'FALSE',
+  FINALLY = 'FINALLY',
   FUN = 'FUN',
   FOR = 'FOR',
   IF = 'IF',
+  IMPORT = 'IMPORT',
+  MATCH = 'MATCH',
   NIL = 'NIL',
   OR = 'OR',
   PRINT = 'PRINT',
   RETURN = 'RETURN',
   SUPER = 'SUPER',
   THIS = 'THIS',
+  THROW = 'THROW',
   TRUE = 'TRUE',
+  TRY = 'TRY',
   VAR = 'VAR',
   WHILE = 'WHILE',
 
@@ -0,0 +1,31 @@
+import * as path from 'path';
+
+export type DiagnosticsFormat = 'text' | 'json';
+
+export interface CliArgs {
+  path: string | null;
+  diagnostics: DiagnosticsFormat;
+  // Extra directories to search for imported modules.
+  modulePath: string[];
+}
+
+// Parses `[--diagnostics=text|json] [--module-path=dirs] [path]`, where
+// `dirs` is separated like the platform's PATH; returns null on bad usage.
+export function parseCliArgs(argv: string[]): CliArgs | null {
+  const result: CliArgs = { path: null, diagnostics: 'text', modulePath: [] };
+  for (const arg of argv) {
+    if (arg.startsWith('--diagnostics=')) {
+      const format = arg.slice('--diagnostics='.length);
+      if (format !== 'text' && format !== 'json') return null;
+      result.diagnostics = format;
+    } else if (arg.startsWith('--module-path=')) {
+      const dirs = arg.slice('--module-path='.length).split(path.delimiter);
+      result.modulePath.push(...dirs.filter(dir => dir !== ''));
+    } else if (arg.startsWith('--') || result.path !== null) {
+      return null;
+    } else {
+      result.path = arg;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,78 @@
+import type { Span } from './Span';
+import { formatPosition } from './Span';
+
+// The parts of a Span the renderer needs; the VM only records positions.
+export type SourceRange = Pick<Span, 'line' | 'column' | 'endLine' | 'endColumn'>;
+
+export interface RenderableDiagnostic {
+  label: string;          // 'Error', 'RuntimeError', ...
+  message: string;
+  range: SourceRange;
+  // Text placed after the label, e.g. " at 'x'" or " at end" (see `tokenContext`).
+  context?: string;
+}
+
+export interface RenderOptions {
+  color?: boolean;
+}
+
+const RED = '\x1b[31m';
+const BOLD = '\x1b[1m';
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+// The "at 'x'" / "at end" context the reference clox prints after "Error".
+export function tokenContext(lexeme: string, isEof: boolean): string {
+  return isEof ? ' at end' : ` at '${lexeme}'`;
+}
+
+/**
+ * Renders diagnostics as a header line followed by the offending source line
+ * with the range underlined by carets:
+ *
+ *   [line 1:7] Error at 'y': Expect ';' after value.
+ *      1 | print y y;
+ *        |       ^
+ *
+ * Shared by the tree-walker and the bytecode compiler.
+ */
+export class DiagnosticRenderer {
+  private readonly lines: string[];
+
+  // Without a source, only the header line is rendered.
+  constructor(
+    source: string | null,
+    private readonly options: RenderOptions = {},
+  ) {
+    this.lines = source === null ? [] : source.split('\n');
+  }
+
+  render(diagnostic: RenderableDiagnostic): string[] {
+    const { label, message, range, context = '' } = diagnostic;
+    const position = formatPosition(range.line, range.column);
+    const header = `[line ${position}] ${this.paint(`${label}${context}:`, BOLD + RED)} ${message}`;
+
+    const text = this.lines[range.line - 1];
+    if (text === undefined || range.column <= 0) return [header];
+
+    const gutter = String(range.line).padStart(4);
+    const blank = ' '.repeat(gutter.length);
+    const startIdx = Math.min(range.column - 1, text.length);
+    const endIdx = range.endLine === range.line
+      ? Math.min(range.endColumn - 1, text.length)
+      : text.length;
+    const width = Math.max(endIdx - startIdx, 1);
+    // Keep tabs in the padding so the carets line up under tabbed source.
+    const padding = text.slice(0, startIdx).replace(/[^\t]/g, ' ');
+
+    return [
+      header,
+      `${this.paint(`${gutter} |`, DIM)} ${text.replace(/\r$/, '')}`,
+      `${this.paint(`${blank} |`, DIM)} ${padding}${this.paint('^'.repeat(width), RED)}`,
+    ];
+  }
+
+  private paint(text: string, style: string): string {
+    return this.options.color ? `${style}${text}${RESET}` : text;
+  }
+}
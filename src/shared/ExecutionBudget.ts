@@ -0,0 +1,43 @@
+export interface ExecutionLimits {
+  // Maximum number of statements (tree-walker) or instructions (VM) to run.
+  maxSteps?: number;
+  // Wall-clock budget in milliseconds, measured from the start of a run.
+  timeoutMs?: number;
+  // Aborting the signal stops the run at the next budget check.
+  signal?: AbortSignal;
+  // Deepest allowed nesting of calls (tree-walker only until the VM has
+  // call frames). Without it, calls nest until the JS stack runs out, which
+  // is reported as a stack overflow all the same.
+  maxCallDepth?: number;
+}
+
+/**
+ * Tracks consumption against a set of ExecutionLimits for a single run.
+ * `check()` returns a description of the exhausted limit, or null while the
+ * run is still within budget.
+ */
+export class ExecutionBudget {
+  private steps = 0;
+  private readonly deadline: number;
+
+  constructor(private readonly limits: ExecutionLimits = {}) {
+    this.deadline = limits.timeoutMs !== undefined ? Date.now() + limits.timeoutMs : Infinity;
+  }
+
+  count(): void {
+    this.steps++;
+  }
+
+  check(): string | null {
+    if (this.limits.maxSteps !== undefined && this.steps > this.limits.maxSteps) {
+      return `Execution step limit of ${this.limits.maxSteps} exceeded.`;
+    }
+    if (this.deadline !== Infinity && Date.now() > this.deadline) {
+      return `Execution time limit of ${this.limits.timeoutMs}ms exceeded.`;
+    }
+    if (this.limits.signal?.aborted) {
+      return 'Execution aborted.';
+    }
+    return null;
+  }
+}
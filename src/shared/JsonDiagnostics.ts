@@ -0,0 +1,76 @@
+import type { Writer } from './Writer';
+import type { SourceRange } from './DiagnosticRenderer';
+
+export type RunOutcome = 'ok' | 'compile-error' | 'runtime-error';
+
+export interface JsonDiagnosticRecord {
+  type: 'diagnostic';
+  severity: 'error';
+  phase: string;
+  code: string;
+  message: string;
+  file: string | null;
+  line: number;
+  column: number;
+  end: { line: number; column: number };
+}
+
+export interface JsonSummaryRecord {
+  type: 'summary';
+  file: string | null;
+  errors: number;
+  status: RunOutcome;
+  exitCode: number;
+}
+
+export interface ReportableDiagnostic {
+  phase: string;
+  code: string;
+  message: string;
+  range: SourceRange;
+  // Overrides the writer's file for diagnostics from another file.
+  file?: string;
+}
+
+/**
+ * Emits diagnostics as JSON Lines for tooling: one record per diagnostic,
+ * followed by a summary record when the run finishes.
+ */
+export class JsonDiagnosticWriter {
+  private errors = 0;
+
+  constructor(
+    private readonly out: Writer,
+    private readonly file: string | null,
+  ) {}
+
+  diagnostic(diagnostic: ReportableDiagnostic): void {
+    const { range } = diagnostic;
+    const record: JsonDiagnosticRecord = {
+      type: 'diagnostic',
+      severity: 'error',
+      phase: diagnostic.phase,
+      code: diagnostic.code,
+      message: diagnostic.message,
+      file: diagnostic.file ?? this.file,
+      line: range.line,
+      column: range.column,
+      end: { line: range.endLine, column: range.endColumn },
+    };
+    this.errors++;
+    this.out.writeLine(JSON.stringify(record));
+  }
+
+  // Writes the summary for the current run and starts counting afresh.
+  summary(status: RunOutcome, exitCode: number): void {
+    const record: JsonSummaryRecord = {
+      type: 'summary',
+      file: this.file,
+      errors: this.errors,
+      status,
+      exitCode,
+    };
+    this.errors = 0;
+    this.out.writeLine(JSON.stringify(record));
+  }
+}
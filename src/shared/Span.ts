@@ -0,0 +1,46 @@
+/**
+ * A range of source text. Offsets are 0-based and `end` is exclusive; lines
+ * and columns are 1-based, and `endColumn` is the column just past the range.
+ */
+export interface Span {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+// Computes the span of `length` characters of `text` starting at a known
+// position, following any newlines inside it.
+export function spanOf(text: string, start: number, line: number, column: number): Span {
+  let endLine = line;
+  let endColumn = column;
+  for (const c of text) {
+    if (c === '\n') {
+      endLine++;
+      endColumn = 1;
+    } else {
+      endColumn++;
+    }
+  }
+  return { start, end: start + text.length, line, column, endLine, endColumn };
+}
+
+// The smallest span covering both `first` and `last`.
+export function joinSpans(first: Span, last: Span): Span {
+  return {
+    start: first.start,
+    end: last.end,
+    line: first.line,
+    column: first.column,
+    endLine: last.endLine,
+    endColumn: last.endColumn,
+  };
+}
+
+// Formats a position as `line:col` for error messages. Column 0 means the
+// column is unknown (e.g. hand-built tokens or chunks), so only the line is shown.
+export function formatPosition(line: number, column: number): string {
+  return column > 0 ? `${line}:${column}` : String(line);
+}
@@ -0,0 +1,50 @@
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '0': '\0',
+  '"': '"',
+  '\\': '\\',
+  $: '$',
+};
+
+export class EscapeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscapeError';
+  }
+}
+
+/**
+ * Decodes the escape sequences in the body of a string literal (the text
+ * between its delimiters): `\n \t \r \0 \" \\ \$` and `\u{...}` with one to
+ * six hex digits. Throws an EscapeError for anything else.
+ */
+export function unescapeString(body: string): string {
+  let result = '';
+  let i = 0;
+  while (i < body.length) {
+    const c = body[i++];
+    if (c !== '\\') {
+      result += c;
+      continue;
+    }
+
+    const next = body[i++];
+    if (next === undefined) throw new EscapeError('Unterminated escape sequence.');
+    if (next in SIMPLE_ESCAPES) {
+      result += SIMPLE_ESCAPES[next];
+      continue;
+    }
+    if (next !== 'u') throw new EscapeError(`Invalid escape sequence '\\${next}'.`);
+
+    const match = /^\{([0-9a-fA-F]{1,6})\}/.exec(body.slice(i));
+    const codePoint = match ? parseInt(match[1], 16) : NaN;
+    if (!match || codePoint > 0x10ffff) {
+      throw new EscapeError('Invalid unicode escape sequence.');
+    }
+    result += String.fromCodePoint(codePoint);
+    i += match[0].length;
+  }
+  return result;
+}
@@ -0,0 +1,48 @@
+/**
+ * Line-oriented output sink shared by the tree-walker and the VM. `print`
+ * and error reporting go through a Writer so hosts can redirect them.
+ */
+export interface Writer {
+  // True when the sink is a terminal that understands ANSI colors.
+  readonly colors?: boolean;
+  writeLine(text: string): void;
+}
+
+// Writes each line to a Node stream such as process.stdout or process.stderr.
+export class StreamWriter implements Writer {
+  readonly colors: boolean;
+
+  constructor(private readonly stream: NodeJS.WritableStream & { isTTY?: boolean }) {
+    this.colors = stream.isTTY === true;
+  }
+
+  writeLine(text: string): void {
+    this.stream.write(text + '\n');
+  }
+}
+
+// Accumulates output in memory; useful for tests and embedding.
+export class BufferedWriter implements Writer {
+  readonly lines: string[] = [];
+
+  writeLine(text: string): void {
+    this.lines.push(text);
+  }
+
+  toString(): string {
+    return this.lines.map(line => line + '\n').join('');
+  }
+}
+
+// Hands every line to a callback.
+export class CallbackWriter implements Writer {
+  constructor(private readonly onLine: (text: string) => void) {}
+
+  writeLine(text: string): void {
+    this.onLine(text);
+  }
+}
+
+// Defaults resolve `console` lazily so callers that patch it still see output.
+export const consoleOutWriter: Writer = new CallbackWriter(text => console.log(text));
+export const consoleErrWriter: Writer = new CallbackWriter(text => console.error(text));
@@ -5,10 +5,12 @@ export class Chunk {
   readonly code: number[] = [];          // bytecode (opcodes + operands)
   readonly constants: VmValue[] = [];    // constant pool
   readonly lines: number[] = [];         // parallel array: source line per byte
+  readonly columns: number[] = [];       // parallel array: source column per byte (0 = unknown)
 
-  write(byte: number, line: number): void {
+  write(byte: number, line: number, column: number = 0): void {
     this.code.push(byte);
     this.lines.push(line);
+    this.columns.push(column);
   }
 
   addConstant(value: VmValue): number {
@@ -50,9 +52,29 @@ export class Chunk {
         return [`${prefix} ${lineInfo} OP_FALSE`, offset + 1];
       case OpCode.OP_RETURN:
         return [`${prefix} ${lineInfo} OP_RETURN`, offset + 1];
+      case OpCode.OP_JUMP:
+        return this.jumpInstruction('OP_JUMP', 1, offset, `${prefix} ${lineInfo}`);
+      case OpCode.OP_JUMP_IF_FALSE:
+        return this.jumpInstruction('OP_JUMP_IF_FALSE', 1, offset, `${prefix} ${lineInfo}`);
+      case OpCode.OP_JUMP_IF_NOT_NIL:
+        return this.jumpInstruction('OP_JUMP_IF_NOT_NIL', 1, offset, `${prefix} ${lineInfo}`);
+      case OpCode.OP_LOOP:
+        return this.jumpInstruction('OP_LOOP', -1, offset, `${prefix} ${lineInfo}`);
       // Add more cases as opcodes are used in later steps
       default:
         return [`${prefix} ${lineInfo} Unknown opcode ${instruction}`, offset + 1];
     }
   }
+
+  // Shows the jump's source and resolved target, e.g. `OP_JUMP 3 -> 9`.
+  private jumpInstruction(
+    name: string,
+    sign: 1 | -1,
+    offset: number,
+    head: string,
+  ): [string, number] {
+    const jump = (this.code[offset + 1] << 8) | this.code[offset + 2];
+    const target = offset + 3 + sign * jump;
+    return [`${head} ${name} ${offset} -> ${target}`, offset + 3];
+  }
 }
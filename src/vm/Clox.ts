@@ -1,33 +1,55 @@
 import * as fs from 'fs';
 import * as readline from 'readline';
 import { VM, InterpretResult } from './VM';
+import { CallbackWriter, StreamWriter } from '../shared/Writer';
+import { JsonDiagnosticWriter } from '../shared/JsonDiagnostics';
+import { CliArgs, parseCliArgs } from '../shared/CliArgs';
 
-const vm = new VM();
+const stderr = new StreamWriter(process.stderr);
 
-function runFile(path: string): void {
-  const source = fs.readFileSync(path, 'utf8');
+function createVM(cli: CliArgs): VM {
+  // In JSON mode the VM's own text errors are dropped in favour of records.
+  const errors = cli.diagnostics === 'json' ? new CallbackWriter(() => {}) : stderr;
+  return new VM(new StreamWriter(process.stdout), errors);
+}
+
+function run(cli: CliArgs, vm: VM, json: JsonDiagnosticWriter, source: string): InterpretResult {
   const result = vm.interpretSource(source);
+  if (cli.diagnostics === 'json') {
+    for (const diagnostic of vm.diagnostics) json.diagnostic(diagnostic);
+    if (result === InterpretResult.COMPILE_ERROR) json.summary('compile-error', 65);
+    else if (result === InterpretResult.RUNTIME_ERROR) json.summary('runtime-error', 70);
+    else json.summary('ok', 0);
+  }
+  return result;
+}
+
+function runFile(cli: CliArgs, path: string): void {
+  const source = fs.readFileSync(path, 'utf8');
+  const result = run(cli, createVM(cli), new JsonDiagnosticWriter(stderr, path), source);
   if (result === InterpretResult.COMPILE_ERROR) process.exit(65);
   if (result === InterpretResult.RUNTIME_ERROR) process.exit(70);
 }
 
-function repl(): void {
+function repl(cli: CliArgs): void {
+  const vm = createVM(cli);
+  const json = new JsonDiagnosticWriter(stderr, null);
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
   const prompt = () => {
     rl.question('> ', (line) => {
-      vm.interpretSource(line);
+      run(cli, vm, json, line);
       prompt();
     });
   };
   prompt();
 }
 
-const args = process.argv.slice(2);
-if (args.length === 0) {
-  repl();
-} else if (args.length === 1) {
-  runFile(args[0]);
-} else {
-  console.error('Usage: clox [path]');
+const cli = parseCliArgs(process.argv.slice(2));
+if (cli === null) {
+  console.error('Usage: clox [--diagnostics=text|json] [path]');
   process.exit(64);
+} else if (cli.path !== null) {
+  runFile(cli, cli.path);
+} else {
+  repl(cli);
 }
@@ -5,17 +5,29 @@ import { TokenType } from './TokenType';
 import type { AnyVmToken, VmErrorToken } from './Token';
 import { getLexeme } from './Token';
 import type { VmValue } from './Value';
+import { Writer, consoleErrWriter } from '../shared/Writer';
+import { spanOf } from '../shared/Span';
+import { unescapeString } from '../shared/StringEscapes';
+import { DiagnosticRenderer, tokenContext } from '../shared/DiagnosticRenderer';
+import { VmDiagnostic, VmDiagnosticCode } from './VmDiagnostic';
 
 export enum Precedence {
   NONE,
   ASSIGNMENT,   // =
+  CONDITIONAL,  // ?:
+  COALESCE,     // ??
   OR,           // or
   AND,          // and
   EQUALITY,     // == !=
   COMPARISON,   // < > <= >=
+  BIT_OR,       // |
+  BIT_XOR,      // ^
+  BIT_AND,      // &
+  SHIFT,        // << >>
   TERM,         // + -
-  FACTOR,       // * /
-  UNARY,        // ! -
+  FACTOR,       // * / %
+  UNARY,        // ! - ~
+  POWER,        // **
   CALL,         // . ()
   PRIMARY,
 }
@@ -38,6 +50,10 @@ export class Compiler {
   private hadError: boolean = false;
   private panicMode: boolean = false;
   private chunk!: Chunk;
+  private renderer!: DiagnosticRenderer;
+  public readonly errors: VmDiagnostic[] = [];
+
+  constructor(private readonly stderr: Writer = consoleErrWriter) {}
 
   // Arrow-function parse handlers (defined before `rules` so they can be referenced)
 
@@ -46,38 +62,100 @@ export class Compiler {
     this.emitConstant(value);
   };
 
+  private readonly stringFn: ParseFn = (_canAssign) => {
+    this.emitConstant(this.stringValue(this.previous));
+  };
+
+  // "a${b}c" arrives as INTERPOLATION("a"), b, STRING("c") and compiles to
+  // "a" + str(b) + "c".
+  private readonly interpolationFn: ParseFn = (_canAssign) => {
+    this.emitConstant(this.stringValue(this.previous));
+    while (true) {
+      this.expression();
+      this.emitByte(OpCode.OP_TO_STRING);
+      this.emitByte(OpCode.OP_ADD);
+      if (this.current.type !== TokenType.INTERPOLATION) break;
+      this.advance();
+      this.emitConstant(this.stringValue(this.previous));
+      this.emitByte(OpCode.OP_ADD);
+    }
+    if (this.current.type !== TokenType.STRING) {
+      this.errorAtCurrent("Expect '}' after interpolated expression.");
+      return;
+    }
+    this.advance();
+    this.emitConstant(this.stringValue(this.previous));
+    this.emitByte(OpCode.OP_ADD);
+  };
+
   private readonly groupingFn: ParseFn = (_canAssign) => {
     this.expression();
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after expression.");
   };
 
   private readonly unaryFn: ParseFn = (_canAssign) => {
-    const operatorType = this.previous.type;
+    const operator = this.previous;
     this.parsePrecedence(Precedence.UNARY);
-    switch (operatorType) {
-      case TokenType.MINUS: this.emitByte(OpCode.OP_NEGATE); break;
-      case TokenType.BANG:  this.emitByte(OpCode.OP_NOT);    break;
+    switch (operator.type) {
+      case TokenType.MINUS: this.emitByte(OpCode.OP_NEGATE, operator);  break;
+      case TokenType.BANG:  this.emitByte(OpCode.OP_NOT, operator);     break;
+      case TokenType.TILDE: this.emitByte(OpCode.OP_BIT_NOT, operator); break;
     }
   };
 
   private readonly binaryFn: ParseFn = (_canAssign) => {
-    const operatorType = this.previous.type;
-    const rule = this.getRule(operatorType);
+    const operator = this.previous;
+    const rule = this.getRule(operator.type);
     this.parsePrecedence(rule.precedence + 1);
-    switch (operatorType) {
-      case TokenType.PLUS:          this.emitByte(OpCode.OP_ADD);                          break;
-      case TokenType.MINUS:         this.emitByte(OpCode.OP_SUBTRACT);                     break;
-      case TokenType.STAR:          this.emitByte(OpCode.OP_MULTIPLY);                     break;
-      case TokenType.SLASH:         this.emitByte(OpCode.OP_DIVIDE);                       break;
-      case TokenType.BANG_EQUAL:    this.emitBytes(OpCode.OP_EQUAL, OpCode.OP_NOT);        break;
-      case TokenType.EQUAL_EQUAL:   this.emitByte(OpCode.OP_EQUAL);                        break;
-      case TokenType.GREATER:       this.emitByte(OpCode.OP_GREATER);                      break;
-      case TokenType.GREATER_EQUAL: this.emitBytes(OpCode.OP_LESS, OpCode.OP_NOT);         break;
-      case TokenType.LESS:          this.emitByte(OpCode.OP_LESS);                         break;
-      case TokenType.LESS_EQUAL:    this.emitBytes(OpCode.OP_GREATER, OpCode.OP_NOT);      break;
+    switch (operator.type) {
+      case TokenType.PLUS:            this.emitByte(OpCode.OP_ADD, operator);                     break;
+      case TokenType.MINUS:           this.emitByte(OpCode.OP_SUBTRACT, operator);                break;
+      case TokenType.STAR:            this.emitByte(OpCode.OP_MULTIPLY, operator);                break;
+      case TokenType.SLASH:           this.emitByte(OpCode.OP_DIVIDE, operator);                  break;
+      case TokenType.PERCENT:         this.emitByte(OpCode.OP_MODULO, operator);                  break;
+      case TokenType.AMPERSAND:       this.emitByte(OpCode.OP_BIT_AND, operator);                 break;
+      case TokenType.PIPE:            this.emitByte(OpCode.OP_BIT_OR, operator);                  break;
+      case TokenType.CARET:           this.emitByte(OpCode.OP_BIT_XOR, operator);                 break;
+      case TokenType.LESS_LESS:       this.emitByte(OpCode.OP_SHIFT_LEFT, operator);              break;
+      case TokenType.GREATER_GREATER: this.emitByte(OpCode.OP_SHIFT_RIGHT, operator);             break;
+      case TokenType.BANG_EQUAL:      this.emitBytes(OpCode.OP_EQUAL, OpCode.OP_NOT, operator);   break;
+      case TokenType.EQUAL_EQUAL:     this.emitByte(OpCode.OP_EQUAL, operator);                   break;
+      case TokenType.GREATER:         this.emitByte(OpCode.OP_GREATER, operator);                 break;
+      case TokenType.GREATER_EQUAL:   this.emitBytes(OpCode.OP_LESS, OpCode.OP_NOT, operator);    break;
+      case TokenType.LESS:            this.emitByte(OpCode.OP_LESS, operator);                    break;
+      case TokenType.LESS_EQUAL:      this.emitBytes(OpCode.OP_GREATER, OpCode.OP_NOT, operator); break;
     }
   };
 
+  // Right-associative: the right operand is parsed at POWER itself rather
+  // than one level above, so 2 ** 3 ** 2 groups as 2 ** (3 ** 2).
+  private readonly powerFn: ParseFn = (_canAssign) => {
+    const operator = this.previous;
+    this.parsePrecedence(Precedence.POWER);
+    this.emitByte(OpCode.OP_POWER, operator);
+  };
+
+  // Right-associative: the else branch is parsed at the conditional's own
+  // precedence, so a ? b : c ? d : e groups as a ? b : (c ? d : e).
+  private readonly conditionalFn: ParseFn = (_canAssign) => {
+    const thenJump = this.emitJump(OpCode.OP_JUMP_IF_FALSE);
+    this.emitByte(OpCode.OP_POP);
+    this.expression();
+    this.consume(TokenType.COLON, "Expect ':' after then branch of conditional expression.");
+    const elseJump = this.emitJump(OpCode.OP_JUMP);
+    this.patchJump(thenJump);
+    this.emitByte(OpCode.OP_POP);
+    this.parsePrecedence(Precedence.CONDITIONAL);
+    this.patchJump(elseJump);
+  };
+
+  private readonly nilCoalesceFn: ParseFn = (_canAssign) => {
+    const endJump = this.emitJump(OpCode.OP_JUMP_IF_NOT_NIL);
+    this.emitByte(OpCode.OP_POP);
+    this.parsePrecedence(Precedence.COALESCE + 1);
+    this.patchJump(endJump);
+  };
+
   private readonly literalFn: ParseFn = (_canAssign) => {
     switch (this.previous.type) {
       case TokenType.FALSE: this.emitByte(OpCode.OP_FALSE); break;
@@ -87,28 +165,44 @@ export class Compiler {
   };
 
   private readonly rules: Partial<Record<TokenType, ParseRule>> = {
-    [TokenType.LEFT_PAREN]:    { prefix: this.groupingFn, infix: null,          precedence: Precedence.NONE },
-    [TokenType.MINUS]:         { prefix: this.unaryFn,    infix: this.binaryFn, precedence: Precedence.TERM },
-    [TokenType.PLUS]:          { prefix: null,            infix: this.binaryFn, precedence: Precedence.TERM },
-    [TokenType.SLASH]:         { prefix: null,            infix: this.binaryFn, precedence: Precedence.FACTOR },
-    [TokenType.STAR]:          { prefix: null,            infix: this.binaryFn, precedence: Precedence.FACTOR },
-    [TokenType.BANG]:          { prefix: this.unaryFn,    infix: null,          precedence: Precedence.NONE },
-    [TokenType.BANG_EQUAL]:    { prefix: null,            infix: this.binaryFn, precedence: Precedence.EQUALITY },
-    [TokenType.EQUAL_EQUAL]:   { prefix: null,            infix: this.binaryFn, precedence: Precedence.EQUALITY },
-    [TokenType.GREATER]:       { prefix: null,            infix: this.binaryFn, precedence: Precedence.COMPARISON },
-    [TokenType.GREATER_EQUAL]: { prefix: null,            infix: this.binaryFn, precedence: Precedence.COMPARISON },
-    [TokenType.LESS]:          { prefix: null,            infix: this.binaryFn, precedence: Precedence.COMPARISON },
-    [TokenType.LESS_EQUAL]:    { prefix: null,            infix: this.binaryFn, precedence: Precedence.COMPARISON },
-    [TokenType.NUMBER]:        { prefix: this.numberFn,   infix: null,          precedence: Precedence.NONE },
-    [TokenType.FALSE]:         { prefix: this.literalFn,  infix: null,          precedence: Precedence.NONE },
-    [TokenType.TRUE]:          { prefix: this.literalFn,  infix: null,          precedence: Precedence.NONE },
-    [TokenType.NIL]:           { prefix: this.literalFn,  infix: null,          precedence: Precedence.NONE },
+    [TokenType.LEFT_PAREN]:        { prefix: this.groupingFn,      infix: null,               precedence: Precedence.NONE },
+    [TokenType.MINUS]:             { prefix: this.unaryFn,         infix: this.binaryFn,      precedence: Precedence.TERM },
+    [TokenType.PLUS]:              { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.TERM },
+    [TokenType.SLASH]:             { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.FACTOR },
+    [TokenType.PERCENT]:           { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.FACTOR },
+    [TokenType.STAR_STAR]:         { prefix: null,                 infix: this.powerFn,       precedence: Precedence.POWER },
+    [TokenType.AMPERSAND]:         { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.BIT_AND },
+    [TokenType.PIPE]:              { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.BIT_OR },
+    [TokenType.CARET]:             { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.BIT_XOR },
+    [TokenType.LESS_LESS]:         { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.SHIFT },
+    [TokenType.GREATER_GREATER]:   { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.SHIFT },
+    [TokenType.TILDE]:             { prefix: this.unaryFn,         infix: null,               precedence: Precedence.NONE },
+    [TokenType.STAR]:              { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.FACTOR },
+    [TokenType.BANG]:              { prefix: this.unaryFn,         infix: null,               precedence: Precedence.NONE },
+    [TokenType.BANG_EQUAL]:        { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.EQUALITY },
+    [TokenType.EQUAL_EQUAL]:       { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.EQUALITY },
+    [TokenType.GREATER]:           { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.COMPARISON },
+    [TokenType.GREATER_EQUAL]:     { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.COMPARISON },
+    [TokenType.LESS]:              { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.COMPARISON },
+    [TokenType.LESS_EQUAL]:        { prefix: null,                 infix: this.binaryFn,      precedence: Precedence.COMPARISON },
+    [TokenType.STRING]:            { prefix: this.stringFn,        infix: null,               precedence: Precedence.NONE },
+    [TokenType.INTERPOLATION]:     { prefix: this.interpolationFn, infix: null,               precedence: Precedence.NONE },
+    [TokenType.NUMBER]:            { prefix: this.numberFn,        infix: null,               precedence: Precedence.NONE },
+    [TokenType.FALSE]:             { prefix: this.literalFn,       infix: null,               precedence: Precedence.NONE },
+    [TokenType.TRUE]:              { prefix: this.literalFn,       infix: null,               precedence: Precedence.NONE },
+    [TokenType.NIL]:               { prefix: this.literalFn,       infix: null,               precedence: Precedence.NONE },
+    [TokenType.QUESTION]:          { prefix: null,                 infix: this.conditionalFn, precedence: Precedence.CONDITIONAL },
+    [TokenType.QUESTION_QUESTION]: { prefix: null,                 infix: this.nilCoalesceFn, precedence: Precedence.COALESCE },
+    [TokenType.BREAK]:             { prefix: null,                 infix: null,               precedence: Precedence.NONE },
+    [TokenType.CONTINUE]:          { prefix: null,                 infix: null,               precedence: Precedence.NONE },
   };
 
   compile(source: string): Chunk | null {
     this.source = source;
     this.scanner = new VmScanner(source);
     this.chunk = new Chunk();
+    this.renderer = new DiagnosticRenderer(source, { color: this.stderr.colors });
+    this.errors.length = 0;
     this.hadError = false;
     this.panicMode = false;
     this.advance();
@@ -156,13 +250,30 @@ export class Compiler {
     }
   }
 
-  private emitByte(byte: number): void {
-    this.chunk.write(byte, this.previous.line);
+  // `at` is the token blamed for runtime errors raised by the instruction.
+  private emitByte(byte: number, at: AnyVmToken = this.previous): void {
+    this.chunk.write(byte, at.line, at.column);
   }
 
-  private emitBytes(b1: number, b2: number): void {
-    this.emitByte(b1);
-    this.emitByte(b2);
+  private emitBytes(b1: number, b2: number, at: AnyVmToken = this.previous): void {
+    this.emitByte(b1, at);
+    this.emitByte(b2, at);
+  }
+
+  // Emits a jump with a placeholder operand and returns the operand's offset,
+  // to be filled in by patchJump once the target is known.
+  private emitJump(instruction: OpCode, at: AnyVmToken = this.previous): number {
+    this.emitByte(instruction, at);
+    this.emitBytes(0xff, 0xff, at);
+    return this.chunk.code.length - 2;
+  }
+
+  private patchJump(offset: number): void {
+    // -2 to skip over the jump operand itself.
+    const jump = this.chunk.code.length - offset - 2;
+    if (jump > 0xffff) this.error('Too much code to jump over.');
+    this.chunk.code[offset] = (jump >> 8) & 0xff;
+    this.chunk.code[offset + 1] = jump & 0xff;
   }
 
   private emitReturn(): void {
@@ -178,6 +289,15 @@ export class Compiler {
     this.emitBytes(OpCode.OP_CONSTANT, idx);
   }
 
+  // The value of a STRING or INTERPOLATION token. The scanner has already
+  // rejected invalid escapes.
+  private stringValue(token: AnyVmToken): string {
+    const lexeme = getLexeme(this.source, token);
+    if (lexeme.startsWith('r')) return lexeme.slice(2, -1);
+    const closing = token.type === TokenType.INTERPOLATION ? 2 : 1; // `${` or `"`
+    return unescapeString(lexeme.slice(1, -closing));
+  }
+
   private error(message: string): void {
     this.errorAt(this.previous, message);
   }
@@ -189,7 +309,16 @@ export class Compiler {
   private errorAt(token: AnyVmToken, message: string): void {
     if (this.panicMode) return;
     this.panicMode = true;
-    console.error(`[line ${token.line}] Error: ${message}`);
+
+    let context = '';
+    if (token.type === TokenType.EOF) context = tokenContext('', true);
+    else if (token.type !== TokenType.ERROR) context = tokenContext(getLexeme(this.source, token), false);
+
+    const range = spanOf(getLexeme(this.source, token), token.start, token.line, token.column);
+    this.errors.push({ phase: 'compile', code: VmDiagnosticCode.COMPILE_ERROR, message, range });
+    for (const line of this.renderer.render({ label: 'Error', message, range, context })) {
+      this.stderr.writeLine(line);
+    }
     this.hadError = true;
   }
 
@@ -10,20 +10,34 @@ export enum OpCode {
   OP_SUBTRACT,
   OP_MULTIPLY,
   OP_DIVIDE,
+  OP_MODULO,
+  OP_POWER,
   OP_NEGATE,
 
+  // Bitwise (integer operands only)
+  OP_BIT_AND,
+  OP_BIT_OR,
+  OP_BIT_XOR,
+  OP_BIT_NOT,
+  OP_SHIFT_LEFT,
+  OP_SHIFT_RIGHT,
+
   // Comparison & equality
   OP_EQUAL,
   OP_GREATER,
   OP_LESS,
   OP_NOT,
 
+  // Strings
+  OP_TO_STRING,      // replace the top of the stack with its printed form
+
   // Output
   OP_PRINT,
 
   // Control
   OP_JUMP,
   OP_JUMP_IF_FALSE,
+  OP_JUMP_IF_NOT_NIL,
   OP_LOOP,
 
   // Variables
@@ -1,40 +1,72 @@
 import { TokenType } from './TokenType';
 import { VmToken, VmErrorToken, AnyVmToken } from './Token';
+import { EscapeError, unescapeString } from '../shared/StringEscapes';
 
 export class VmScanner {
   private start: number = 0;
   private current: number = 0;
   private line: number = 1;
+  private lineStart: number = 0;  // offset of the first character of `line`
+  private startLine: number = 1;  // position of `start`, for multi-line tokens
+  private startColumn: number = 1;
+  // One entry per `${` we're inside of, counting the braces opened within it
+  // so that the `}` closing the interpolation can be told apart.
+  private readonly interpolations: number[] = [];
 
   constructor(private readonly source: string) {}
 
   scanToken(): AnyVmToken {
     this.skipWhitespace();
     this.start = this.current;
+    this.startLine = this.line;
+    this.startColumn = this.current - this.lineStart + 1;
 
     if (this.isAtEnd()) return this.makeToken(TokenType.EOF);
 
     const c = this.advance();
 
+    if (c === 'r' && this.peek() === '"') return this.rawString();
     if (this.isAlpha(c)) return this.identifier();
     if (this.isDigit(c)) return this.number();
 
     switch (c) {
       case '(': return this.makeToken(TokenType.LEFT_PAREN);
       case ')': return this.makeToken(TokenType.RIGHT_PAREN);
-      case '{': return this.makeToken(TokenType.LEFT_BRACE);
-      case '}': return this.makeToken(TokenType.RIGHT_BRACE);
+      case '{':
+        if (this.interpolations.length > 0) this.interpolations[this.interpolations.length - 1]++;
+        return this.makeToken(TokenType.LEFT_BRACE);
+      case '}': {
+        const depth = this.interpolations.length - 1;
+        if (depth >= 0 && this.interpolations[depth] === 0) {
+          // Closes `${...}`: carry on with the rest of the string.
+          this.interpolations.pop();
+          return this.string();
+        }
+        if (depth >= 0) this.interpolations[depth]--;
+        return this.makeToken(TokenType.RIGHT_BRACE);
+      }
       case ';': return this.makeToken(TokenType.SEMICOLON);
       case ',': return this.makeToken(TokenType.COMMA);
+      case ':': return this.makeToken(TokenType.COLON);
       case '.': return this.makeToken(TokenType.DOT);
       case '-': return this.makeToken(TokenType.MINUS);
       case '+': return this.makeToken(TokenType.PLUS);
       case '/': return this.makeToken(TokenType.SLASH);
-      case '*': return this.makeToken(TokenType.STAR);
+      case '*': return this.makeToken(this.match('*') ? TokenType.STAR_STAR : TokenType.STAR);
+      case '%': return this.makeToken(TokenType.PERCENT);
+      case '&': return this.makeToken(TokenType.AMPERSAND);
+      case '|': return this.makeToken(TokenType.PIPE);
+      case '^': return this.makeToken(TokenType.CARET);
+      case '~': return this.makeToken(TokenType.TILDE);
       case '!': return this.makeToken(this.match('=') ? TokenType.BANG_EQUAL : TokenType.BANG);
       case '=': return this.makeToken(this.match('=') ? TokenType.EQUAL_EQUAL : TokenType.EQUAL);
-      case '<': return this.makeToken(this.match('=') ? TokenType.LESS_EQUAL : TokenType.LESS);
-      case '>': return this.makeToken(this.match('=') ? TokenType.GREATER_EQUAL : TokenType.GREATER);
+      case '<':
+        if (this.match('<')) return this.makeToken(TokenType.LESS_LESS);
+        return this.makeToken(this.match('=') ? TokenType.LESS_EQUAL : TokenType.LESS);
+      case '?': return this.makeToken(this.match('?') ? TokenType.QUESTION_QUESTION : TokenType.QUESTION);
+      case '>':
+        if (this.match('>')) return this.makeToken(TokenType.GREATER_GREATER);
+        return this.makeToken(this.match('=') ? TokenType.GREATER_EQUAL : TokenType.GREATER);
       case '"': return this.string();
     }
 
@@ -42,11 +74,24 @@ export class VmScanner {
   }
 
   private makeToken(type: TokenType): VmToken {
-    return { type, start: this.start, length: this.current - this.start, line: this.line };
+    return {
+      type,
+      start: this.start,
+      length: this.current - this.start,
+      line: this.startLine,
+      column: this.startColumn,
+    };
   }
 
   private errorToken(message: string): VmErrorToken {
-    return { type: TokenType.ERROR, start: this.start, length: 0, line: this.line, message };
+    return {
+      type: TokenType.ERROR,
+      start: this.start,
+      length: 0,
+      line: this.startLine,
+      column: this.startColumn,
+      message,
+    };
   }
 
   private advance(): string {
@@ -68,6 +113,12 @@ export class VmScanner {
     return this.source[this.current + 1] ?? '\0';
   }
 
+  // Call after consuming a '\n'.
+  private newline(): void {
+    this.line++;
+    this.lineStart = this.current;
+  }
+
   private isAtEnd(): boolean {
     return this.current >= this.source.length;
   }
@@ -89,7 +140,7 @@ export class VmScanner {
       const c = this.peek();
       switch (c) {
         case ' ': case '\r': case '\t': this.advance(); break;
-        case '\n': this.line++; this.advance(); break;
+        case '\n': this.advance(); this.newline(); break;
         case '/':
           if (this.peekNext() === '/') {
             while (this.peek() !== '\n' && !this.isAtEnd()) this.advance();
@@ -100,16 +151,50 @@ export class VmScanner {
     }
   }
 
+  // Scans up to the closing quote or to a `${`. The token starts at a
+  // one-character delimiter: the opening quote, or the `}` that closed an
+  // interpolation. Escapes are checked here and decoded by the compiler.
   private string(): AnyVmToken {
     while (this.peek() !== '"' && !this.isAtEnd()) {
-      if (this.peek() === '\n') this.line++;
-      this.advance();
+      if (this.peek() === '$' && this.peekNext() === '{') {
+        const body = this.source.slice(this.start + 1, this.current);
+        this.advance(); this.advance();
+        this.interpolations.push(0);
+        return this.stringToken(TokenType.INTERPOLATION, body);
+      }
+      const c = this.advance();
+      if (c === '\\' && !this.isAtEnd()) {
+        if (this.advance() === '\n') this.newline();
+      } else if (c === '\n') {
+        this.newline();
+      }
+    }
+    if (this.isAtEnd()) return this.errorToken('Unterminated string.');
+    this.advance(); // closing "
+    return this.stringToken(TokenType.STRING, this.source.slice(this.start + 1, this.current - 1));
+  }
+
+  // r"..." has no escapes or interpolation.
+  private rawString(): AnyVmToken {
+    this.advance(); // opening "
+    while (this.peek() !== '"' && !this.isAtEnd()) {
+      if (this.advance() === '\n') this.newline();
     }
     if (this.isAtEnd()) return this.errorToken('Unterminated string.');
     this.advance(); // closing "
     return this.makeToken(TokenType.STRING);
   }
 
+  private stringToken(type: TokenType, body: string): AnyVmToken {
+    try {
+      unescapeString(body);
+    } catch (e) {
+      if (!(e instanceof EscapeError)) throw e;
+      return this.errorToken(e.message);
+    }
+    return this.makeToken(type);
+  }
+
   private number(): VmToken {
     while (this.isDigit(this.peek())) this.advance();
     if (this.peek() === '.' && this.isDigit(this.peekNext())) {
@@ -126,7 +211,8 @@ export class VmScanner {
 
   private identifierType(): TokenType {
     const keywords: Record<string, TokenType> = {
-      and: TokenType.AND, class: TokenType.CLASS, else: TokenType.ELSE,
+      and: TokenType.AND, break: TokenType.BREAK, class: TokenType.CLASS,
+      continue: TokenType.CONTINUE, else: TokenType.ELSE,
       false: TokenType.FALSE, for: TokenType.FOR, fun: TokenType.FUN,
       if: TokenType.IF, nil: TokenType.NIL, or: TokenType.OR,
       print: TokenType.PRINT, return: TokenType.RETURN, super: TokenType.SUPER,
@@ -5,6 +5,7 @@ export interface VmToken {
   start: number;      // index into the source string
   length: number;     // length of the lexeme
   line: number;
+  column: number;     // 1-based column of `start`
 }
 
 export interface VmErrorToken extends VmToken {
@@ -5,12 +5,18 @@ export enum TokenType {
   LEFT_BRACE = 'LEFT_BRACE',
   RIGHT_BRACE = 'RIGHT_BRACE',
   COMMA = 'COMMA',
+  COLON = 'COLON',
   DOT = 'DOT',
   MINUS = 'MINUS',
   PLUS = 'PLUS',
   SEMICOLON = 'SEMICOLON',
   SLASH = 'SLASH',
   STAR = 'STAR',
+  PERCENT = 'PERCENT',
+  AMPERSAND = 'AMPERSAND',
+  PIPE = 'PIPE',
+  CARET = 'CARET',
+  TILDE = 'TILDE',
 
   // One or two character tokens
   BANG = 'BANG',
@@ -21,15 +27,24 @@ export enum TokenType {
   GREATER_EQUAL = 'GREATER_EQUAL',
   LESS = 'LESS',
   LESS_EQUAL = 'LESS_EQUAL',
+  LESS_LESS = 'LESS_LESS',
+  GREATER_GREATER = 'GREATER_GREATER',
+  STAR_STAR = 'STAR_STAR',
+  QUESTION = 'QUESTION',
+  QUESTION_QUESTION = 'QUESTION_QUESTION',
 
   // Literals
   IDENTIFIER = 'IDENTIFIER',
   STRING = 'STRING',
+  // The part of an interpolated string before a `${`, e.g. `"Hi ${`.
+  INTERPOLATION = 'INTERPOLATION',
   NUMBER = 'NUMBER',
 
   // Keywords
   AND = 'AND',
+  BREAK = 'BREAK',
   CLASS = 'CLASS',
+  CONTINUE = 'CONTINUE',
   ELSE = 'ELSE',
   FALSE = 'FALSE',
   FUN = 'FUN',
@@ -3,6 +3,10 @@ import { OpCode } from './OpCode';
 import type { VmValue } from './Value';
 import { printValue, valuesEqual } from './Value';
 import { Compiler } from './Compiler';
+import { Writer, consoleOutWriter, consoleErrWriter } from '../shared/Writer';
+import { ExecutionBudget, ExecutionLimits } from '../shared/ExecutionBudget';
+import { DiagnosticRenderer } from '../shared/DiagnosticRenderer';
+import { VmDiagnostic, VmDiagnosticCode } from './VmDiagnostic';
 
 export enum InterpretResult {
   OK,
@@ -14,18 +18,34 @@ export class VM {
   private chunk!: Chunk;
   private ip: number = 0;           // instruction pointer
   private stack: VmValue[] = [];    // value stack
+  private source: string | null = null; // for error snippets, when known
+  private budget = new ExecutionBudget();
+  // Compile and runtime errors from the most recent run.
+  public readonly diagnostics: VmDiagnostic[] = [];
+
+  constructor(
+    private readonly stdout: Writer = consoleOutWriter,
+    private readonly stderr: Writer = consoleErrWriter,
+    private readonly limits: ExecutionLimits = {},
+  ) {}
 
   interpretSource(source: string): InterpretResult {
-    const compiler = new Compiler();
+    const compiler = new Compiler(this.stderr);
     const chunk = compiler.compile(source);
-    if (!chunk) return InterpretResult.COMPILE_ERROR;
-    return this.interpret(chunk);
+    if (!chunk) {
+      this.diagnostics.splice(0, this.diagnostics.length, ...compiler.errors);
+      return InterpretResult.COMPILE_ERROR;
+    }
+    return this.interpret(chunk, source);
   }
 
-  interpret(chunk: Chunk): InterpretResult {
+  interpret(chunk: Chunk, source: string | null = null): InterpretResult {
     this.chunk = chunk;
+    this.source = source;
+    this.diagnostics.length = 0;
     this.ip = 0;
     this.stack = [];
+    this.budget = new ExecutionBudget(this.limits);
     return this.run();
   }
 
@@ -33,6 +53,10 @@ export class VM {
     while (true) {
       const instruction = this.readByte() as OpCode;
 
+      this.budget.count();
+      const exhausted = this.budget.check();
+      if (exhausted !== null) return this.runtimeError(exhausted, VmDiagnosticCode.BUDGET_EXCEEDED);
+
       switch (instruction) {
         case OpCode.OP_CONSTANT: {
           const constant = this.readConstant();
@@ -82,10 +106,68 @@ export class VM {
         case OpCode.OP_DIVIDE:
           if (!this.binaryOp((a, b) => a / b, 'number')) return InterpretResult.RUNTIME_ERROR;
           break;
+        case OpCode.OP_MODULO:
+          // Matches the tree-walker rather than yielding NaN.
+          if (this.peek(0) === 0 && typeof this.peek(1) === 'number') {
+            return this.runtimeError('Division by zero.');
+          }
+          if (!this.binaryOp((a, b) => a % b, 'number')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_POWER:
+          if (!this.binaryOp((a, b) => a ** b, 'number')) return InterpretResult.RUNTIME_ERROR;
+          break;
+
+        case OpCode.OP_BIT_AND:
+          if (!this.binaryOp((a, b) => a & b, 'integer')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_BIT_OR:
+          if (!this.binaryOp((a, b) => a | b, 'integer')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_BIT_XOR:
+          if (!this.binaryOp((a, b) => a ^ b, 'integer')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_SHIFT_LEFT:
+          if (!this.binaryOp((a, b) => a << b, 'integer')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_SHIFT_RIGHT:
+          if (!this.binaryOp((a, b) => a >> b, 'integer')) return InterpretResult.RUNTIME_ERROR;
+          break;
+        case OpCode.OP_BIT_NOT: {
+          if (!Number.isInteger(this.peek(0))) {
+            return this.runtimeError('Operand must be an integer.');
+          }
+          this.push(~(this.pop() as number));
+          break;
+        }
+
+        case OpCode.OP_TO_STRING:
+          this.push(printValue(this.pop()));
+          break;
 
         case OpCode.OP_PRINT: {
           const val = this.pop();
-          console.log(printValue(val));
+          this.stdout.writeLine(printValue(val));
+          break;
+        }
+
+        case OpCode.OP_JUMP: {
+          const offset = this.readShort();
+          this.ip += offset;
+          break;
+        }
+        case OpCode.OP_JUMP_IF_FALSE: {
+          const offset = this.readShort();
+          if (!this.isTruthy(this.peek(0))) this.ip += offset;
+          break;
+        }
+        case OpCode.OP_JUMP_IF_NOT_NIL: {
+          const offset = this.readShort();
+          if (this.peek(0) !== null) this.ip += offset;
+          break;
+        }
+        case OpCode.OP_LOOP: {
+          const offset = this.readShort();
+          this.ip -= offset;
           break;
         }
 
@@ -102,6 +184,12 @@ export class VM {
     return this.chunk.code[this.ip++];
   }
 
+  // Jump operands are 16-bit, big-endian.
+  private readShort(): number {
+    this.ip += 2;
+    return (this.chunk.code[this.ip - 2] << 8) | this.chunk.code[this.ip - 1];
+  }
+
   private readConstant(): VmValue {
     return this.chunk.constants[this.readByte()];
   }
@@ -126,11 +214,18 @@ export class VM {
     return true;
   }
 
+  // Bitwise operators take 'integer' operands and, as in the tree-walker,
+  // work on their 32-bit two's complement representation.
   private binaryOp(
     op: (a: number, b: number) => VmValue,
-    _type: 'number',
+    type: 'number' | 'integer',
   ): boolean {
-    if (typeof this.peek(0) !== 'number' || typeof this.peek(1) !== 'number') {
+    if (type === 'integer') {
+      if (!Number.isInteger(this.peek(0)) || !Number.isInteger(this.peek(1))) {
+        this.runtimeError('Operands must be integers.');
+        return false;
+      }
+    } else if (typeof this.peek(0) !== 'number' || typeof this.peek(1) !== 'number') {
       this.runtimeError('Operands must be numbers.');
       return false;
     }
@@ -157,9 +252,18 @@ export class VM {
     return false;
   }
 
-  private runtimeError(message: string): InterpretResult {
+  private runtimeError(
+    message: string,
+    code: VmDiagnosticCode = VmDiagnosticCode.RUNTIME_ERROR,
+  ): InterpretResult {
     const line = this.chunk.lines[this.ip - 1];
-    console.error(`[line ${line}] RuntimeError: ${message}`);
+    const column = this.chunk.columns[this.ip - 1];
+    const renderer = new DiagnosticRenderer(this.source, { color: this.stderr.colors });
+    const range = { line, column, endLine: line, endColumn: column };
+    this.diagnostics.push({ phase: 'runtime', code, message, range });
+    for (const text of renderer.render({ label: 'RuntimeError', message, range })) {
+      this.stderr.writeLine(text);
+    }
     return InterpretResult.RUNTIME_ERROR;
   }
 }
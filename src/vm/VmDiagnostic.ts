@@ -0,0 +1,14 @@
+import type { SourceRange } from '../shared/DiagnosticRenderer';
+
+export enum VmDiagnosticCode {
+  COMPILE_ERROR = 'CLOX001',
+  RUNTIME_ERROR = 'CLOX002',
+  BUDGET_EXCEEDED = 'CLOX003',
+}
+
+export interface VmDiagnostic {
+  phase: 'compile' | 'runtime';
+  code: VmDiagnosticCode;
+  message: string;
+  range: SourceRange;
+}
@@ -0,0 +1,124 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+const circle = `
+  class Circle {
+    init(radius) { this.radius = radius; }
+    area { return 3 * this.radius * this.radius; }
+    diameter { return this.radius * 2; }
+    set diameter(value) { this.radius = value / 2; }
+  }
+`;
+
+describe('Getters', () => {
+  it('runs a getter on property access', () => {
+    expect(run(circle + 'print Circle(2).area;')).toEqual(['12']);
+  });
+
+  it('re-runs the getter on every access', () => {
+    expect(run(circle + `
+      var c = Circle(1);
+      print c.area;
+      c.radius = 2;
+      print c.area;
+    `)).toEqual(['3', '12']);
+  });
+
+  it('is inherited and can be overridden', () => {
+    expect(run(`
+      class Shape { name { return "shape"; } describe() { return "a " + this.name; } }
+      class Square < Shape { name { return "square"; } }
+      class Blob < Shape {}
+      print Square().describe();
+      print Blob().name;
+    `)).toEqual(['a square', 'shape']);
+  });
+
+  it('is reachable through super', () => {
+    expect(run(`
+      class A { label { return "A"; } }
+      class B < A { label { return super.label + "B"; } }
+      print B().label;
+    `)).toEqual(['AB']);
+  });
+
+  it('works as a static getter', () => {
+    expect(run(`
+      class Config { class version { return "1.0"; } }
+      print Config.version;
+    `)).toEqual(['1.0']);
+  });
+
+  it('counts recursive getters against the call-depth limit', () => {
+    expect(runError('class A { loop { return this.loop; } } print A().loop;'))
+      .toBe('Stack overflow.');
+  });
+});
+
+describe('Setters', () => {
+  it('runs a setter on assignment', () => {
+    expect(run(circle + `
+      var c = Circle(1);
+      c.diameter = 10;
+      print c.radius;
+      print c.diameter;
+    `)).toEqual(['5', '10']);
+  });
+
+  it('evaluates to the assigned value', () => {
+    expect(run(circle + 'var c = Circle(1); print c.diameter = 8;')).toEqual(['8']);
+  });
+
+  it('is used by compound assignment alongside the getter', () => {
+    expect(run(circle + `
+      var c = Circle(1);
+      c.diameter += 4;
+      print c.radius;
+    `)).toEqual(['3']);
+  });
+
+  it('is inherited', () => {
+    expect(run(`
+      class Base { set value(v) { this.stored = v * 10; } }
+      class Derived < Base {}
+      var d = Derived();
+      d.value = 4;
+      print d.stored;
+    `)).toEqual(['40']);
+  });
+
+  it('leaves set usable as an ordinary name', () => {
+    expect(run(`
+      class Bag { set(key) { return "set " + key; } }
+      var set = Bag();
+      print set.set("x");
+    `)).toEqual(['set x']);
+  });
+});
+
+describe('Accessor resolver errors', () => {
+  it('requires exactly one setter parameter', () => {
+    expect(runError('class A { set x(a, b) {} }')).toBe('A setter must have exactly one parameter.');
+  });
+
+  it('rejects returning a value from a setter', () => {
+    expect(runError('class A { set x(v) { return v; } }')).toBe("Can't return a value from a setter.");
+  });
+
+  it('rejects a getter named init', () => {
+    expect(runError('class A { init { return 1; } }')).toBe("An initializer can't be a getter.");
+  });
+});
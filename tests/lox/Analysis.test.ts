@@ -0,0 +1,57 @@
+import { analyze } from '../../src/lox/Analysis';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { DiagnosticPhase, normalizeDiagnostics, tokenDiagnostic, DiagnosticCode } from '../../src/lox/Diagnostic';
+import { Token } from '../../src/lox/Token';
+import { TokenType } from '../../src/lox/TokenType';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+function diagnose(source: string) {
+  return analyze(source, new Interpreter(new BufferedWriter())).diagnostics;
+}
+
+describe('analyze', () => {
+  it('returns the parsed statements of a clean program', () => {
+    const { statements, diagnostics } = analyze('var a = 1; print a;', new Interpreter());
+    expect(diagnostics).toEqual([]);
+    expect(statements).toHaveLength(2);
+  });
+
+  it('reports scanner errors with their position', () => {
+    const [d] = diagnose('print 1;\n  print "open');
+    expect(d).toMatchObject({
+      phase: DiagnosticPhase.SCAN,
+      message: 'Unterminated string.',
+      line: 2,
+      column: 9,
+      context: '',
+    });
+  });
+
+  it('collects errors from every static phase in source order', () => {
+    const diagnostics = diagnose('{ var a = a; }\n@\nprint 1');
+    expect(diagnostics.map(d => [d.phase, d.line])).toEqual([
+      [DiagnosticPhase.RESOLVE, 1],
+      [DiagnosticPhase.SCAN, 2],
+      [DiagnosticPhase.PARSE, 3],
+    ]);
+  });
+
+  it('drops parse errors caused by characters the scanner skipped', () => {
+    const diagnostics = diagnose('var x = #;');
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe("Unexpected character '#'.");
+  });
+
+  it('records clox-style token context for parse errors', () => {
+    const diagnostics = diagnose('print 1');
+    expect(diagnostics[0].context).toBe(' at end');
+  });
+});
+
+describe('normalizeDiagnostics', () => {
+  it('removes duplicates at the same position', () => {
+    const token = new Token(TokenType.IDENTIFIER, 'x', null, 1, 1, 0);
+    const d = tokenDiagnostic(DiagnosticPhase.RESOLVE, DiagnosticCode.RESOLVE_ERROR, 'Oops.', token);
+    expect(normalizeDiagnostics([d, { ...d }])).toEqual([d]);
+  });
+});
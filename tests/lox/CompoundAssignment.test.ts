@@ -0,0 +1,165 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { AstPrinter } from '../../src/lox/AstPrinter';
+import { Stmt } from '../../src/lox/Stmt';
+import { TokenType } from '../../src/lox/TokenType';
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+function printExpr(source: string): string {
+  const stmts = new Parser(new Scanner(source).scanTokens()).parse();
+  return new AstPrinter().print((stmts[0] as Stmt.Expression).expression);
+}
+
+describe('Compound assignment — scanning and parsing', () => {
+  it('scans the new operators', () => {
+    const types = new Scanner('+= -= *= /= ++ --').scanTokens().map(t => t.type);
+    expect(types).toEqual([
+      TokenType.PLUS_EQUAL,
+      TokenType.MINUS_EQUAL,
+      TokenType.STAR_EQUAL,
+      TokenType.SLASH_EQUAL,
+      TokenType.PLUS_PLUS,
+      TokenType.MINUS_MINUS,
+      TokenType.EOF,
+    ]);
+  });
+
+  it('prints compound assignments and increments', () => {
+    expect(printExpr('x += 1;')).toBe('(+= x 1)');
+    expect(printExpr('a.b *= c = 2;')).toBe('(*= (get a b) (= c 2))');
+    expect(printExpr('++xs[0];')).toBe('(pre++ (index xs 0))');
+    expect(printExpr('a.b--;')).toBe('(post-- (get a b))');
+  });
+
+  it('still parses -- before a non-target as double negation', () => {
+    expect(printExpr('--1;')).toBe('(- (- 1))');
+  });
+
+  it('rejects invalid targets', () => {
+    expect(runError('1 += 2;')).toBe('Invalid assignment target.');
+    expect(runError('var a = 1; (a) -= 2;')).toBe('Invalid assignment target.');
+    expect(runError('++1;')).toBe('Invalid assignment target.');
+    expect(runError('fun f() {} f()++;')).toBe('Invalid assignment target.');
+  });
+});
+
+describe('Compound assignment — evaluation', () => {
+  it('updates global and local variables', () => {
+    const source = `
+      var total = 10;
+      total += 5; total -= 3; total *= 2; total /= 4;
+      print total;
+      {
+        var s = "a";
+        s += "b";
+        print s;
+      }
+    `;
+    expect(run(source)).toEqual(['6', 'ab']);
+  });
+
+  it('updates captured variables', () => {
+    const source = `
+      fun counter() {
+        var n = 0;
+        return fun () { n += 1; return n; };
+      }
+      var c = counter();
+      c();
+      print c();
+    `;
+    expect(run(source)).toEqual(['2']);
+  });
+
+  it('yields the assigned value', () => {
+    expect(run('var a = 1; print a += 2;')).toEqual(['3']);
+  });
+
+  it('updates fields and list and map elements', () => {
+    const source = `
+      class Acc { init() { this.total = 1; } }
+      var acc = Acc();
+      acc.total += 41;
+      var xs = [1, 2];
+      xs[1] *= 10;
+      var m = {"k": "x"};
+      m["k"] += "y";
+      print acc.total; print xs; print m;
+    `;
+    expect(run(source)).toEqual(['42', '[1, 20]', '{k: xy}']);
+  });
+
+  it('evaluates the target object and index only once', () => {
+    const source = `
+      class Node { init() { this.child = nil; this.value = 0; } }
+      var root = Node();
+      root.child = Node();
+      var calls = 0;
+      fun get() { calls += 1; return root; }
+      get().child.value += 5;
+      var xs = [0, 0];
+      var i = 0;
+      fun next() { i += 1; return i; }
+      xs[next() - 1] += 7;
+      print root.child.value; print calls; print xs; print i;
+    `;
+    expect(run(source)).toEqual(['5', '1', '[7, 0]', '1']);
+  });
+
+  it('reports type errors at the compound operator', () => {
+    expect(runError('var s = "a"; s -= 1;')).toBe('Operands must be numbers.');
+    expect(runError('var n = 1; n += "x";')).toBe('Operands must be two numbers or two strings.');
+    expect(runError('var n = 1; n /= 0;')).toBe('Division by zero.');
+  });
+
+  it('reports undefined targets', () => {
+    expect(runError('nope += 1;')).toBe("Undefined variable 'nope'.");
+    expect(runError('var n = 1; n.x += 1;')).toBe('Only instances have fields.');
+  });
+});
+
+describe('Increment and decrement', () => {
+  it('prefix forms yield the updated value', () => {
+    expect(run('var i = 1; print ++i; print --i; print i;')).toEqual(['2', '1', '1']);
+  });
+
+  it('postfix forms yield the original value', () => {
+    expect(run('var i = 1; print i++; print i--; print i;')).toEqual(['1', '2', '1']);
+  });
+
+  it('work on fields and list elements', () => {
+    const source = `
+      class C {}
+      var c = C();
+      c.n = 0;
+      c.n++;
+      ++c.n;
+      var xs = [5];
+      xs[0]--;
+      print c.n; print xs[0];
+    `;
+    expect(run(source)).toEqual(['2', '4']);
+  });
+
+  it('drive for loops', () => {
+    expect(run('for (var i = 0; i < 3; i++) print i;')).toEqual(['0', '1', '2']);
+  });
+
+  it('require a number', () => {
+    expect(runError('var s = "a"; s++;')).toBe('Operand must be a number.');
+  });
+});
@@ -0,0 +1,134 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+import { analyze } from '../../src/lox/Analysis';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { Environment } from '../../src/lox/Environment';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function compileError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).toBe(RunStatus.COMPILE_ERROR);
+  return result.diagnostics[0].message;
+}
+
+describe('const declarations', () => {
+  it('binds a value like var', () => {
+    expect(run(`
+      const greeting = "hi";
+      { const n = 2; print greeting + " x" + "\${n}"; }
+    `)).toEqual(['hi x2']);
+  });
+
+  it('requires an initializer', () => {
+    expect(compileError('const x;')).toBe("Expect '=' after constant name.");
+  });
+
+  it('does not freeze the value it holds', () => {
+    expect(run(`
+      const xs = [1];
+      push(xs, 2);
+      print xs;
+    `)).toEqual(['[1, 2]']);
+  });
+});
+
+describe('const reassignment', () => {
+  it('rejects assigning to a global constant', () => {
+    expect(compileError('const x = 1; x = 2;')).toBe("Cannot assign to constant 'x'.");
+  });
+
+  it('rejects assigning to a local constant', () => {
+    expect(compileError('{ const x = 1; x = 2; }')).toBe("Cannot assign to constant 'x'.");
+  });
+
+  it('rejects compound assignment and increments', () => {
+    expect(compileError('const x = 1; x += 2;')).toBe("Cannot assign to constant 'x'.");
+    expect(compileError('fun f() { const n = 0; n++; }')).toBe("Cannot assign to constant 'n'.");
+  });
+
+  it('rejects assignments in functions declared before the constant', () => {
+    expect(compileError(`
+      fun reset() { limit = 0; }
+      const limit = 10;
+    `)).toBe("Cannot assign to constant 'limit'.");
+  });
+
+  it('rejects assignments from closures', () => {
+    expect(compileError(`
+      fun outer() {
+        const count = 0;
+        fun inner() { count = count + 1; }
+      }
+    `)).toBe("Cannot assign to constant 'count'.");
+  });
+
+  it('allows assigning to a variable that shadows a constant', () => {
+    expect(run(`
+      const x = 1;
+      { var x = 2; x = 3; print x; }
+      print x;
+    `)).toEqual(['3', '1']);
+  });
+
+  it('rejects redeclaring a global constant with var', () => {
+    expect(compileError('const x = 1; var x = 2;')).toBe("Cannot redeclare constant 'x'.");
+  });
+
+  it('rejects redeclaring a global constant with const, fun or class', () => {
+    expect(compileError('const x = 1; const x = 2;')).toBe("Cannot redeclare constant 'x'.");
+    expect(compileError('const x = 1; fun x() {}')).toBe("Cannot redeclare constant 'x'.");
+    expect(compileError('const x = 1; class x {}')).toBe("Cannot redeclare constant 'x'.");
+  });
+
+  it('rejects declarations that a later constant would replace', () => {
+    expect(compileError('fun x() {} const x = 1;')).toBe("Cannot redeclare constant 'x'.");
+  });
+
+  it('rejects importing over a global constant', () => {
+    expect(compileError('const m = 1; import "m.lox" as m;')).toBe("Cannot redeclare constant 'm'.");
+    expect(compileError('const f = 1; import { f } from "m.lox";')).toBe("Cannot redeclare constant 'f'.");
+  });
+
+  it('still allows fields of a constant instance to change', () => {
+    expect(run(`
+      class Config {}
+      const config = Config();
+      config.debug = true;
+      print config.debug;
+    `)).toEqual(['true']);
+  });
+});
+
+describe('const across separate runs', () => {
+  it('remembers global constants for later sources, as in the REPL', () => {
+    const interpreter = new Interpreter(new BufferedWriter());
+    interpreter.interpret(analyze('const x = 1;', interpreter).statements);
+    expect(analyze('x = 2;', interpreter).diagnostics.map(d => d.message))
+      .toEqual(["Cannot assign to constant 'x'."]);
+    expect(analyze('var x = 2;', interpreter).diagnostics.map(d => d.message))
+      .toEqual(["Cannot redeclare constant 'x'."]);
+    expect(analyze('const x = 2;', interpreter).diagnostics.map(d => d.message))
+      .toEqual(["Cannot redeclare constant 'x'."]);
+  });
+
+  it('forgets the constants of a source that fails to analyse', () => {
+    const interpreter = new Interpreter(new BufferedWriter());
+    expect(analyze('const x = 1; x = 2;', interpreter).diagnostics).toHaveLength(1);
+    expect(analyze('const y = 1; print ;', interpreter).diagnostics).toHaveLength(1);
+    expect(analyze('var x = 2; var y = 3;', interpreter).diagnostics).toEqual([]);
+  });
+
+  it('keeps a separate set of constants for each global scope', () => {
+    const interpreter = new Interpreter(new BufferedWriter());
+    analyze('const x = 1;', interpreter);
+    const other = new Environment(interpreter.builtins, true);
+    expect(analyze('x = 2;', interpreter, null, other).diagnostics).toEqual([]);
+  });
+});
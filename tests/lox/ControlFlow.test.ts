@@ -98,3 +98,110 @@ describe('logical operators', () => {
     expect(run('print (nil and "x");')).toEqual(['nil']);
   });
 });
+
+describe('Control flow — break and continue', () => {
+  it('break exits a while loop', () => {
+    const source = `
+      var i = 0;
+      while (true) {
+        if (i == 3) break;
+        print i;
+        i = i + 1;
+      }
+      print "done";
+    `;
+    expect(run(source)).toEqual(['0', '1', '2', 'done']);
+  });
+
+  it('continue skips the rest of a while body', () => {
+    const source = `
+      var i = 0;
+      while (i < 5) {
+        i = i + 1;
+        if (i == 2 or i == 4) continue;
+        print i;
+      }
+    `;
+    expect(run(source)).toEqual(['1', '3', '5']);
+  });
+
+  it('continue in a for loop still runs the increment', () => {
+    const source = `
+      for (var i = 0; i < 5; i = i + 1) {
+        if (i == 1) continue;
+        if (i == 3) break;
+        print i;
+      }
+    `;
+    expect(run(source)).toEqual(['0', '2']);
+  });
+
+  it('break and continue only affect the innermost loop', () => {
+    const source = `
+      for (var i = 0; i < 3; i = i + 1) {
+        for (var j = 0; j < 3; j = j + 1) {
+          if (j == 1) continue;
+          if (j == 2) break;
+          print i + j * 10;
+        }
+      }
+    `;
+    expect(run(source)).toEqual(['0', '1', '2']);
+  });
+
+  it('break leaves the environment of the loop body', () => {
+    const source = `
+      var a = "outer";
+      while (true) {
+        var a = "inner";
+        break;
+      }
+      print a;
+    `;
+    expect(run(source)).toEqual(['outer']);
+  });
+
+  it('return from inside a loop in a function still returns', () => {
+    const source = `
+      fun first() {
+        for (var i = 0; i < 10; i = i + 1) {
+          if (i == 4) return i;
+        }
+      }
+      print first();
+    `;
+    expect(run(source)).toEqual(['4']);
+  });
+});
+
+describe('Conditional and nil-coalescing operators', () => {
+  it('?: picks a branch by truthiness', () => {
+    expect(run('print true ? "yes" : "no"; print nil ? "yes" : "no"; print 0 ? "yes" : "no";'))
+      .toEqual(['yes', 'no', 'yes']);
+  });
+
+  it('?: only evaluates the chosen branch', () => {
+    const source = `
+      fun say(x) { print x; return x; }
+      var r = false ? say("then") : say("else");
+    `;
+    expect(run(source)).toEqual(['else']);
+  });
+
+  it('chains ?: right-associatively', () => {
+    const source = `
+      fun grade(n) { return n >= 90 ? "A" : n >= 80 ? "B" : "C"; }
+      print grade(95); print grade(85); print grade(10);
+    `;
+    expect(run(source)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('?? only falls through on nil', () => {
+    expect(run('print nil ?? "default"; print false ?? "default"; print 0 ?? 1;'))
+      .toEqual(['default', 'false', '0']);
+  });
+
+  it('?? short-circuits', () => {
+    expect(run('fun boom() { print "evaluated"; } print 1 ?? boom();')).toEqual(['1']);
+  });
+});
@@ -0,0 +1,181 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): { status: RunStatus; message: string } {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return { status: result.status, message: result.diagnostics[0].message };
+}
+
+describe('Exceptions — throw and catch', () => {
+  it('catches a thrown value', () => {
+    expect(run(`
+      try {
+        throw "boom";
+        print "unreachable";
+      } catch (e) {
+        print "caught " + e;
+      }
+      print "after";
+    `)).toEqual(['caught boom', 'after']);
+  });
+
+  it('constructs Error instances with a message', () => {
+    expect(run(`
+      try { throw Error("bad input"); } catch (e) { print e.message; print e; }
+    `)).toEqual(['bad input', 'Error instance']);
+  });
+
+  it('catches subclasses of Error', () => {
+    expect(run(`
+      class NotFound < Error {
+        init(name) { super.init(name + " not found"); this.name = name; }
+      }
+      try { throw NotFound("key"); } catch (e) { print e.message; print e.name; }
+    `)).toEqual(['key not found', 'key']);
+  });
+
+  it('unwinds through function calls', () => {
+    expect(run(`
+      fun inner() { throw 42; }
+      fun outer() { inner(); print "unreachable"; }
+      try { outer(); } catch (e) { print e; }
+    `)).toEqual(['42']);
+  });
+
+  it('lets the innermost handler catch first', () => {
+    expect(run(`
+      try {
+        try { throw "inner"; } catch (e) { print "1 " + e; throw "outer"; }
+      } catch (e) {
+        print "2 " + e;
+      }
+    `)).toEqual(['1 inner', '2 outer']);
+  });
+
+  it('reports an uncaught throw as a runtime error', () => {
+    expect(runError('throw "oops";')).toEqual({
+      status: RunStatus.RUNTIME_ERROR,
+      message: 'Uncaught oops.',
+    });
+    expect(runError('throw Error("bad");').message).toBe('Uncaught Error: bad.');
+  });
+});
+
+describe('Exceptions — built-in runtime errors', () => {
+  it('surfaces runtime errors as Error instances with message and line', () => {
+    expect(run(`
+      try {
+        print "line 3";
+        print 1 + nil;
+      } catch (e) {
+        print e.message;
+        print e.line;
+      }
+    `)).toEqual(['line 3', 'Operands must be two numbers or two strings.', '4']);
+  });
+
+  it('catches errors raised inside natives', () => {
+    expect(run('try { pop([]); } catch (e) { print e.message; }'))
+      .toEqual(["Can't pop from an empty list."]);
+  });
+
+  it('still gives Error instances after a script redefines Error', () => {
+    expect(run(`
+      var original = Error;
+      class Error {}
+      try { nil(); } catch (e) { print e.message; }
+    `)).toEqual(['Can only call functions and classes.']);
+  });
+
+  it('does not let scripts catch an exhausted step budget', () => {
+    const result = runLox('try { while (true) {} } catch (e) { print "caught"; }', {
+      limits: { maxSteps: 1000 },
+    });
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.output).toEqual([]);
+  });
+});
+
+describe('Exceptions — finally', () => {
+  it('runs after the try body and after a catch', () => {
+    expect(run(`
+      try { print "body"; } finally { print "finally"; }
+      try { throw 1; } catch (e) { print "catch"; } finally { print "finally"; }
+    `)).toEqual(['body', 'finally', 'catch', 'finally']);
+  });
+
+  it('runs before an uncaught error propagates', () => {
+    const result = runLox('try { throw "x"; } finally { print "cleanup"; }');
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.output).toEqual(['cleanup']);
+  });
+
+  it('runs when the try body returns, without catching the return', () => {
+    expect(run(`
+      fun f() {
+        try { return "try"; } catch (e) { print "not an error"; } finally { print "finally"; }
+        return "after";
+      }
+      print f();
+    `)).toEqual(['finally', 'try']);
+  });
+
+  it('lets a return in finally override the try body', () => {
+    expect(run(`
+      fun f() {
+        try { throw "lost"; } finally { return "finally"; }
+      }
+      print f();
+    `)).toEqual(['finally']);
+  });
+
+  it('runs when break leaves a loop', () => {
+    expect(run(`
+      for (var i = 0; i < 3; i = i + 1) {
+        try { if (i == 1) break; print i; } finally { print "f\${i}"; }
+      }
+    `)).toEqual(['0', 'f0', 'f1']);
+  });
+});
+
+describe('Exceptions — static errors', () => {
+  it('requires a catch or finally clause', () => {
+    expect(runError('try { }').message).toBe("Expect 'catch' or 'finally' after try block.");
+  });
+
+  it('requires a parenthesised catch variable', () => {
+    expect(runError('try { } catch { }').message).toBe("Expect '(' after 'catch'.");
+  });
+
+  it('scopes the catch variable to the catch body', () => {
+    expect(runError(`
+      try { throw 1; } catch (e) { }
+      print e;
+    `)).toEqual({ status: RunStatus.RUNTIME_ERROR, message: "Undefined variable 'e'." });
+  });
+
+  it('rejects redeclaring the catch variable in the catch body', () => {
+    expect(runError(`
+      fun f() { try { } catch (e) { var e = 1; } }
+    `)).toEqual({
+      status: RunStatus.COMPILE_ERROR,
+      message: 'Already a variable with this name in this scope.',
+    });
+  });
+
+  it('lets closures capture the catch variable', () => {
+    expect(run(`
+      var later;
+      try { throw "kept"; } catch (e) { later = fun () { return e; }; }
+      print later();
+    `)).toEqual(['kept']);
+  });
+});
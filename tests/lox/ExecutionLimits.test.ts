@@ -0,0 +1,116 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { Resolver } from '../../src/lox/Resolver';
+import { BudgetExceededError, RuntimeError, StackOverflowError } from '../../src/lox/RuntimeError';
+import { ExecutionLimits } from '../../src/shared/ExecutionBudget';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+function run(source: string, limits: ExecutionLimits): string[] {
+  const out = new BufferedWriter();
+  const interpreter = new Interpreter(out, limits);
+  const stmts = new Parser(new Scanner(source).scanTokens()).parse();
+  new Resolver(interpreter).resolve(stmts);
+  interpreter.interpret(stmts);
+  return out.lines;
+}
+
+function runError(source: string, limits: ExecutionLimits): RuntimeError {
+  try {
+    run(source, limits);
+  } catch (e) {
+    if (e instanceof RuntimeError) return e;
+    throw e;
+  }
+  throw new Error('Expected a runtime error.');
+}
+
+describe('Execution limits — step budget', () => {
+  it('stops an infinite while loop', () => {
+    const error = runError('var x = 0;\nwhile (true) {\n  x = x + 1;\n}', { maxSteps: 1000 });
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.message).toBe('Execution step limit of 1000 exceeded.');
+    expect(error.token.line).toBe(2);
+  });
+
+  it('stops an infinite for loop', () => {
+    const error = runError('for (;;) {}', { maxSteps: 50 });
+    expect(error).toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('stops unbounded recursion through calls', () => {
+    const error = runError('fun f() {\n  f();\n}\nf();', { maxSteps: 100 });
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.token.line).toBe(2);
+  });
+
+  it('lets programs within budget finish', () => {
+    const src = 'var i = 0; while (i < 3) { print i; i = i + 1; }';
+    expect(run(src, { maxSteps: 100 })).toEqual(['0', '1', '2']);
+  });
+
+  it('restarts the budget for each interpret call', () => {
+    const out = new BufferedWriter();
+    const interpreter = new Interpreter(out, { maxSteps: 20 });
+    const program = new Parser(new Scanner('var i = 0; while (i < 5) i = i + 1; print i;').scanTokens()).parse();
+    interpreter.interpret(program);
+    interpreter.interpret(program);
+    expect(out.lines).toEqual(['5', '5']);
+  });
+});
+
+describe('Execution limits — deadline and cancellation', () => {
+  it('stops a loop that outlives its time budget', () => {
+    const error = runError('while (true) {}', { timeoutMs: 20 });
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.message).toBe('Execution time limit of 20ms exceeded.');
+  });
+
+  it('stops when the abort signal fires', () => {
+    const controller = new AbortController();
+    const interpreter = new Interpreter(new BufferedWriter(), { signal: controller.signal });
+    interpreter.defineNative('cancel', 0, () => controller.abort());
+    const stmts = new Parser(new Scanner('var n = 0;\nwhile (true) { n = n + 1; if (n == 10) cancel(); }').scanTokens()).parse();
+    new Resolver(interpreter).resolve(stmts);
+    expect(() => interpreter.interpret(stmts)).toThrow('Execution aborted.');
+  });
+});
+
+describe('Execution limits — call depth', () => {
+  const recurse = 'fun f(n) {\n  return f(n + 1);\n}\nf(0);';
+
+  it('reports unbounded recursion as a stack overflow', () => {
+    const error = runError(recurse, {});
+    expect(error).toBeInstanceOf(StackOverflowError);
+    expect(error.message).toBe('Stack overflow.');
+    expect(error.token.line).toBe(2);
+  });
+
+  it('runs recursion as deep as the JS stack allows by default', () => {
+    const src = 'fun depth(n) { if (n == 0) return 0; return depth(n - 1) + 1; }\nprint depth(800);';
+    expect(run(src, {})).toEqual(['800']);
+  });
+
+  it('honours a configured maximum depth', () => {
+    const src = 'fun depth(n) { if (n == 0) return 0; return depth(n - 1) + 1; }\nprint depth(10);';
+    expect(run(src, { maxCallDepth: 11 })).toEqual(['10']);
+    expect(runError(src, { maxCallDepth: 10 })).toBeInstanceOf(StackOverflowError);
+  });
+
+  it('converts a JS stack overflow above the configured depth', () => {
+    const error = runError(recurse, { maxCallDepth: 1_000_000 });
+    expect(error).toBeInstanceOf(StackOverflowError);
+  });
+
+  it('unwinds the depth counter after an error', () => {
+    const out = new BufferedWriter();
+    const interpreter = new Interpreter(out, { maxCallDepth: 5 });
+    interpreter.defineNative('fail', 0, args => { throw args.error('boom'); });
+    const stmts = new Parser(new Scanner('fun g() { fail(); }').scanTokens()).parse();
+    interpreter.interpret(stmts);
+    const call = new Parser(new Scanner('g();').scanTokens()).parse();
+    for (let i = 0; i < 10; i++) {
+      expect(() => interpreter.interpret(call)).toThrow('boom');
+    }
+  });
+});
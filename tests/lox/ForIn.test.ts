@@ -0,0 +1,155 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): { status: RunStatus; message: string } {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return { status: result.status, message: result.diagnostics[0].message };
+}
+
+describe('for-in — built-in iterables', () => {
+  it('iterates over list elements', () => {
+    expect(run('for (var x in [1, "two", nil]) print x;')).toEqual(['1', 'two', 'nil']);
+  });
+
+  it('visits elements pushed while iterating', () => {
+    expect(run(`
+      var xs = [1];
+      for (var x in xs) { if (x < 3) push(xs, x + 1); print x; }
+    `)).toEqual(['1', '2', '3']);
+  });
+
+  it('iterates over map keys in insertion order', () => {
+    expect(run('for (var k in {"b": 1, "a": 2}) print k;')).toEqual(['b', 'a']);
+  });
+
+  it('iterates over the characters of a string', () => {
+    expect(run('for (var c in "hé!") print c;')).toEqual(['h', 'é', '!']);
+  });
+
+  it('rejects values that cannot be iterated', () => {
+    expect(runError('for (var x in 42) print x;')).toEqual({
+      status: RunStatus.RUNTIME_ERROR,
+      message: "Can only iterate over lists, maps, strings, ranges and instances with an 'iterator' method.",
+    });
+  });
+});
+
+describe('for-in — range', () => {
+  it('counts up with a default step of one', () => {
+    expect(run('for (var i in range(0, 3)) print i;')).toEqual(['0', '1', '2']);
+  });
+
+  it('supports custom and negative steps', () => {
+    expect(run('for (var i in range(0, 10, 4)) print i;')).toEqual(['0', '4', '8']);
+    expect(run('for (var i in range(3, 0, -1)) print i;')).toEqual(['3', '2', '1']);
+  });
+
+  it('is empty when the end is already reached', () => {
+    expect(run('for (var i in range(5, 5)) print i; print "done";')).toEqual(['done']);
+  });
+
+  it('avoids accumulating rounding error on fractional steps', () => {
+    expect(run('for (var x in range(0, 0.35, 0.1)) print x;'))
+      .toEqual(['0', '0.1', '0.2', '0.30000000000000004']);
+  });
+
+  it('prints as a range and rejects a zero step', () => {
+    expect(run('print range(1, 5, 2);')).toEqual(['range(1, 5, 2)']);
+    expect(runError('range(0, 1, 0);').message).toBe("Range step can't be zero.");
+  });
+
+  it('rejects bounds and steps that are not finite', () => {
+    const globals = { nan: NaN, inf: Infinity };
+    for (const args of ['0, nan', 'nan, 10', '0, 10, nan', '0, 10, inf', '0, -inf, -1']) {
+      const result = runLox(`for (var x in range(${args})) print x;`, { globals });
+      expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+      expect(result.diagnostics[0].message).toBe('Range start, end and step must be finite numbers.');
+    }
+  });
+});
+
+describe('for-in — iterator protocol', () => {
+  const countdown = `
+    class CountdownIterator {
+      init(n) { this.n = n; }
+      hasNext() { return this.n > 0; }
+      next() { this.n = this.n - 1; return this.n + 1; }
+    }
+    class Countdown {
+      init(from) { this.from = from; }
+      iterator() { return CountdownIterator(this.from); }
+    }
+  `;
+
+  it('drives the loop with iterator(), hasNext() and next()', () => {
+    expect(run(countdown + 'for (var n in Countdown(3)) print n;')).toEqual(['3', '2', '1']);
+  });
+
+  it('starts a fresh iterator for each loop', () => {
+    expect(run(countdown + `
+      var c = Countdown(2);
+      for (var n in c) print n;
+      for (var n in c) print n;
+    `)).toEqual(['2', '1', '2', '1']);
+  });
+
+  it('inherits the protocol', () => {
+    expect(run(countdown + `
+      class FromTwo < Countdown { init() { super.init(2); } }
+      for (var n in FromTwo()) print n;
+    `)).toEqual(['2', '1']);
+  });
+
+  it('reports iterators missing a protocol method', () => {
+    expect(runError(`
+      class Bad { iterator() { return this; } hasNext() { return true; } }
+      for (var x in Bad()) print x;
+    `).message).toBe("Iterator needs a 'next' method that takes no arguments.");
+  });
+
+  it('rejects instances without an iterator method', () => {
+    expect(runError('class A {} for (var x in A()) print x;').message)
+      .toBe("Can only iterate over lists, maps, strings, ranges and instances with an 'iterator' method.");
+  });
+});
+
+describe('for-in — loop semantics', () => {
+  it('supports break and continue', () => {
+    expect(run(`
+      for (var i in range(0, 10)) {
+        if (i == 1) continue;
+        if (i == 4) break;
+        print i;
+      }
+    `)).toEqual(['0', '2', '3']);
+  });
+
+  it('binds a fresh variable for each iteration', () => {
+    expect(run(`
+      var fns = [];
+      for (var i in range(0, 3)) push(fns, fun () { return i; });
+      for (var f in fns) print f();
+    `)).toEqual(['0', '1', '2']);
+  });
+
+  it('scopes the loop variable to the loop', () => {
+    expect(runError('for (var x in [1]) {} print x;').message).toBe("Undefined variable 'x'.");
+  });
+
+  it('keeps the C-style for loop and in as a name working', () => {
+    expect(run('var in = 2; for (var i = 0; i < in; i = i + 1) print i;')).toEqual(['0', '1']);
+  });
+
+  it('counts iterations against the step budget', () => {
+    const result = runLox('for (var i in range(0, 1000000)) {}', { limits: { maxSteps: 100 } });
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+  });
+});
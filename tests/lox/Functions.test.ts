@@ -102,3 +102,49 @@ describe('Function toString', () => {
     expect(run('fun foo() {} print foo;')).toEqual(['<fn foo>']);
   });
 });
+
+describe('Anonymous functions', () => {
+  it('can be called directly and stored in variables', () => {
+    const source = `
+      var add = fun (a, b) { return a + b; };
+      print add(1, 2);
+      print fun () { return "now"; }();
+    `;
+    expect(run(source)).toEqual(['3', 'now']);
+  });
+
+  it('are passed as callbacks', () => {
+    const source = `
+      fun twice(f, x) { return f(f(x)); }
+      print twice(fun (n) { return n * 3; }, 2);
+    `;
+    expect(run(source)).toEqual(['18']);
+  });
+
+  it('close over their enclosing scope', () => {
+    const source = `
+      fun counter() {
+        var count = 0;
+        return fun () { count = count + 1; return count; };
+      }
+      var next = counter();
+      next();
+      print next();
+    `;
+    expect(run(source)).toEqual(['2']);
+  });
+
+  it('can start an expression statement', () => {
+    expect(run('fun (x) { print x; }("called");')).toEqual(['called']);
+  });
+
+  it('print as anonymous with their line', () => {
+    expect(run('\n\nprint fun () {};')).toEqual(['<fn anonymous@3>']);
+  });
+
+  it('report a missing parameter list', () => {
+    const parser = new Parser(new Scanner('var f = fun { };').scanTokens());
+    parser.parse();
+    expect(parser.errors[0].message).toBe("Expect '(' after 'fun'.");
+  });
+});
@@ -0,0 +1,140 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { AstPrinter } from '../../src/lox/AstPrinter';
+import { Expr } from '../../src/lox/Expr';
+import { Stmt } from '../../src/lox/Stmt';
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+function printExpr(source: string): string {
+  const stmts = new Parser(new Scanner(source).scanTokens()).parse();
+  return new AstPrinter().print((stmts[0] as Stmt.Expression).expression);
+}
+
+describe('Lists — literals', () => {
+  it('prints list literals', () => {
+    expect(run('print [1, "two", nil, true];')).toEqual(['[1, two, nil, true]']);
+  });
+
+  it('supports empty lists and trailing commas', () => {
+    expect(run('print []; print [1, 2,];')).toEqual(['[]', '[1, 2]']);
+  });
+
+  it('nests lists', () => {
+    expect(run('print [[1, 2], [3]];')).toEqual(['[[1, 2], [3]]']);
+  });
+
+  it('prints a list that contains itself without recursing', () => {
+    expect(run('var xs = [1]; push(xs, xs); print xs;')).toEqual(['[1, [...]]']);
+  });
+
+  it('compares lists by identity', () => {
+    expect(run('var xs = [1]; print xs == xs; print [1] == [1];')).toEqual(['true', 'false']);
+  });
+});
+
+describe('Lists — indexing', () => {
+  it('reads elements', () => {
+    expect(run('var xs = [10, 20, 30]; print xs[0]; print xs[2];')).toEqual(['10', '30']);
+  });
+
+  it('writes elements and yields the assigned value', () => {
+    expect(run('var xs = [1, 2]; print xs[1] = 5; print xs;')).toEqual(['5', '[1, 5]']);
+  });
+
+  it('chains indexing with calls and fields', () => {
+    const source = `
+      class Box { init() { this.items = [[1, 2], [3, 4]]; } }
+      fun box() { return Box(); }
+      var b = box();
+      b.items[1][0] = 9;
+      print b.items[1];
+      print box().items[0][1];
+    `;
+    expect(run(source)).toEqual(['[9, 4]', '2']);
+  });
+
+  it('reports out-of-bounds reads and writes', () => {
+    expect(runError('var xs = [1]; print xs[1];')).toBe('List index 1 out of bounds for length 1.');
+    expect(runError('var xs = [1]; xs[-1] = 0;')).toBe('List index -1 out of bounds for length 1.');
+  });
+
+  it('requires integer indices', () => {
+    expect(runError('print [1][0.5];')).toBe('List index must be an integer.');
+    expect(runError('print [1]["0"];')).toBe('List index must be an integer.');
+  });
+
+  it('rejects indexing non-lists', () => {
+    expect(runError('var n = 1; print n[0];')).toBe('Only lists and maps can be indexed.');
+  });
+
+  it('reports unterminated index expressions', () => {
+    expect(runError('print [1][0;')).toBe("Expect ']' after index.");
+    expect(runError('print [1, 2;')).toBe("Expect ']' after list elements.");
+  });
+
+  it('rejects invalid assignment targets', () => {
+    expect(runError('[1][0] + 1 = 2;')).toBe('Invalid assignment target.');
+  });
+});
+
+describe('Lists — natives', () => {
+  it('len counts list elements and string characters', () => {
+    expect(run('print len([1, 2, 3]); print len(""); print len("abc");')).toEqual(['3', '0', '3']);
+  });
+
+  it('len rejects other values', () => {
+    expect(runError('len(1);')).toBe("Argument 1 to 'len' must be a list, a map or a string.");
+  });
+
+  it('push appends and returns the new length', () => {
+    expect(run('var xs = []; print push(xs, 1); push(xs, 2); print xs;')).toEqual(['1', '[1, 2]']);
+  });
+
+  it('pop removes and returns the last element', () => {
+    expect(run('var xs = [1, 2]; print pop(xs); print xs;')).toEqual(['2', '[1]']);
+    expect(runError('pop([]);')).toBe("Can't pop from an empty list.");
+  });
+
+  it('checks that push and pop receive a list', () => {
+    expect(runError('push("a", 1);')).toBe("Argument 1 to 'push' must be a list.");
+  });
+});
+
+describe('Lists — AST', () => {
+  it('prints list, index and index-set nodes', () => {
+    expect(printExpr('[1, 2];')).toBe('(list 1 2)');
+    expect(printExpr('xs[0];')).toBe('(index xs 0)');
+    expect(printExpr('xs[0] = 1;')).toBe('(index-set xs 0 1)');
+  });
+
+  it('resolves locals used inside index expressions', () => {
+    const source = `
+      var i = 0;
+      {
+        var xs = [1, 2];
+        var i = 1;
+        print xs[i];
+      }
+    `;
+    expect(run(source)).toEqual(['2']);
+  });
+
+  it('builds index-set nodes from index targets', () => {
+    const stmts = new Parser(new Scanner('xs[0] = 1;').scanTokens()).parse();
+    expect((stmts[0] as Stmt.Expression).expression).toBeInstanceOf(Expr.IndexSet);
+  });
+});
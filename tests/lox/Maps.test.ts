@@ -0,0 +1,119 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { AstPrinter } from '../../src/lox/AstPrinter';
+import { Stmt } from '../../src/lox/Stmt';
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+describe('Maps — literals', () => {
+  it('prints entries in insertion order', () => {
+    expect(run('print {"b": 1, "a": 2};')).toEqual(['{b: 1, a: 2}']);
+  });
+
+  it('supports empty maps and trailing commas', () => {
+    expect(run('print {}; print {1: true,};')).toEqual(['{}', '{1: true}']);
+  });
+
+  it('keeps the last value for duplicate keys', () => {
+    expect(run('print {"a": 1, "a": 2};')).toEqual(['{a: 2}']);
+  });
+
+  it('treats a brace at the start of a statement as a block', () => {
+    expect(run('{ var m = {"x": {}}; print m; }')).toEqual(['{x: {}}']);
+  });
+
+  it('prints a map that contains itself without recursing', () => {
+    expect(run('var m = {}; m["self"] = m; print m;')).toEqual(['{self: {...}}']);
+  });
+
+  it('reports a missing colon or closing brace', () => {
+    expect(runError('var m = {"a" 1};')).toBe("Expect ':' after map key.");
+    expect(runError('var m = {"a": 1;')).toBe("Expect '}' after map entries.");
+  });
+
+  it('prints map nodes', () => {
+    const stmts = new Parser(new Scanner('({"a": 1, b: 2});').scanTokens()).parse();
+    const expr = (stmts[0] as Stmt.Expression).expression;
+    expect(new AstPrinter().print(expr)).toBe('(group (map a 1 b 2))');
+  });
+});
+
+describe('Maps — indexing', () => {
+  it('reads and writes entries', () => {
+    expect(run('var m = {"a": 1}; m["b"] = 2; m["a"] = 3; print m["a"]; print m;'))
+      .toEqual(['3', '{a: 3, b: 2}']);
+  });
+
+  it('reports missing keys', () => {
+    expect(runError('var m = {}; print m["nope"];')).toBe("Undefined key 'nope'.");
+  });
+
+  it('keeps keys of different types apart', () => {
+    const source = `
+      var m = {1: "number", "1": "string", true: "bool", nil: "nil"};
+      print m[1]; print m["1"]; print m[true]; print m[nil];
+    `;
+    expect(run(source)).toEqual(['number', 'string', 'bool', 'nil']);
+  });
+
+  it('uses instances as keys by identity', () => {
+    const source = `
+      class Point {}
+      var a = Point();
+      var b = Point();
+      var m = {};
+      m[a] = "a";
+      m[b] = "b";
+      print m[a]; print m[b]; print len(m);
+    `;
+    expect(run(source)).toEqual(['a', 'b', '2']);
+  });
+
+  it('rejects lists, maps and functions as keys', () => {
+    const message = 'Map key must be a string, number, boolean, nil or instance.';
+    expect(runError('var m = {}; m[[1]] = 1;')).toBe(message);
+    expect(runError('var m = {{}: 1};')).toBe(message);
+    expect(runError('fun f() {} var m = {}; print m[f];')).toBe(message);
+  });
+});
+
+describe('Maps — natives', () => {
+  it('has and remove check and delete keys', () => {
+    const source = `
+      var m = {"a": 1};
+      print has(m, "a");
+      print remove(m, "a");
+      print remove(m, "a");
+      print has(m, "a");
+    `;
+    expect(run(source)).toEqual(['true', 'true', 'false', 'false']);
+  });
+
+  it('iterates keys and values in insertion order', () => {
+    const source = `
+      var m = {"x": 1, "y": 2};
+      m["z"] = 3;
+      var ks = keys(m);
+      var vs = values(m);
+      for (var i = 0; i < len(ks); i = i + 1) print [ks[i], vs[i]];
+    `;
+    expect(run(source)).toEqual(['[x, 1]', '[y, 2]', '[z, 3]']);
+  });
+
+  it('checks that map natives receive a map', () => {
+    expect(runError('has([1], 1);')).toBe("Argument 1 to 'has' must be a map.");
+  });
+});
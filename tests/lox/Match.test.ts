@@ -0,0 +1,171 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): { status: RunStatus; message: string } {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return { status: result.status, message: result.diagnostics[0].message };
+}
+
+const classify = `
+  fun classify(x) {
+    match (x) {
+      case 1, 2:
+        return "small";
+      case -1:
+        return "negative";
+      case "x":
+        return "letter";
+      case true:
+        return "yes";
+      case nil:
+        return "nothing";
+      default:
+        return "other";
+    }
+  }
+`;
+
+describe('match — literal cases', () => {
+  it('selects the case whose literal equals the value', () => {
+    expect(run(classify + `
+      print classify(1);
+      print classify(2);
+      print classify(-1);
+      print classify("x");
+      print classify(true);
+      print classify(nil);
+    `)).toEqual(['small', 'small', 'negative', 'letter', 'yes', 'nothing']);
+  });
+
+  it('falls back to default, including for non-literal values', () => {
+    expect(run(classify + `
+      print classify(3);
+      print classify(false);
+      print classify([1]);
+      print classify(classify);
+    `)).toEqual(['other', 'other', 'other', 'other']);
+  });
+
+  it('does nothing when no case matches and there is no default', () => {
+    expect(run('match (5) { case 1: print "one"; } print "done";')).toEqual(['done']);
+  });
+
+  it('does not fall through to the next case', () => {
+    expect(run(`
+      match (1) {
+        case 1:
+          print "one";
+        case 2:
+          print "two";
+        default:
+          print "default";
+      }
+    `)).toEqual(['one']);
+  });
+
+  it('evaluates the value once', () => {
+    expect(run(`
+      var calls = 0;
+      fun next() { calls = calls + 1; return calls; }
+      match (next()) { case 5: print "five"; default: print "other"; }
+      print calls;
+    `)).toEqual(['other', '1']);
+  });
+
+  it('gives each case its own scope', () => {
+    expect(run(`
+      match (1) {
+        case 1:
+          var label = "first";
+          print label;
+        case 2:
+          var label = "second";
+      }
+    `)).toEqual(['first']);
+  });
+
+  it('lets break and continue reach an enclosing loop', () => {
+    expect(run(`
+      for (var i = 0; i < 5; i = i + 1) {
+        match (i) {
+          case 1: continue;
+          case 3: break;
+        }
+        print i;
+      }
+    `)).toEqual(['0', '2']);
+  });
+});
+
+describe('match — class patterns', () => {
+  const shapes = `
+    class Shape {}
+    class Circle < Shape {}
+    class Square < Shape {}
+    class Other {}
+    fun name(s) {
+      match (s) {
+        case is Circle: return "circle";
+        case is Shape: return "some shape";
+        case 0, is Other: return "zero or other";
+        default: return "unknown";
+      }
+    }
+  `;
+
+  it('matches instances of the class and its subclasses, in case order', () => {
+    expect(run(shapes + `
+      print name(Circle());
+      print name(Square());
+      print name(Other());
+      print name(0);
+      print name("circle");
+    `)).toEqual(['circle', 'some shape', 'zero or other', 'zero or other', 'unknown']);
+  });
+
+  it('does not treat a class as an instance of itself', () => {
+    expect(run(shapes + 'print name(Circle);')).toEqual(['unknown']);
+  });
+
+  it('requires the pattern to name a class', () => {
+    expect(runError('var x = 1; match (Error("e")) { case is x: print "?"; }')).toEqual({
+      status: RunStatus.RUNTIME_ERROR,
+      message: "Operand of 'is' must be a class.",
+    });
+  });
+
+  it('keeps is usable as a name', () => {
+    expect(run('var is = 2; match (is) { case 2: print "two"; }')).toEqual(['two']);
+  });
+});
+
+describe('match — static errors', () => {
+  it('reports duplicate literal cases', () => {
+    expect(runError('match (1) { case 1: print 1; case 2, 1: print 2; }')).toEqual({
+      status: RunStatus.COMPILE_ERROR,
+      message: 'Duplicate case 1 in match.',
+    });
+    expect(runError('match (1) { case "a", "a": print 1; }').message)
+      .toBe('Duplicate case "a" in match.');
+    expect(runError('match (1) { case nil: case nil: }').message)
+      .toBe('Duplicate case nil in match.');
+  });
+
+  it('allows only one default', () => {
+    expect(runError('match (1) { default: print 1; default: print 2; }').message)
+      .toBe('A match can only have one default case.');
+  });
+
+  it('only accepts literal and class patterns', () => {
+    expect(runError('var y = 1; match (1) { case y: print 1; }').message)
+      .toBe("Expect a literal or 'is' pattern.");
+  });
+});
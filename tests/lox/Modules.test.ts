@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runLox, RunOptions, RunStatus } from '../../src/lox/Runner';
+
+let root: string;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'lox-modules-'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+function write(file: string, source: string): string {
+  const full = path.join(root, file);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, source);
+  return full;
+}
+
+// Runs `source` as if it were the file `main.lox` in the temp directory.
+function run(source: string, options: RunOptions = {}): string[] {
+  const result = runLox(source, { modules: { mainFile: path.join(root, 'main.lox') }, ...options });
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): { status: RunStatus; message: string } {
+  const result = runLox(source, { modules: { mainFile: path.join(root, 'main.lox') } });
+  expect(result.status).not.toBe(RunStatus.OK);
+  return { status: result.status, message: result.diagnostics[0].message };
+}
+
+describe('Modules — importing', () => {
+  it('exposes exports through a module value', () => {
+    write('math.lox', `
+      export fun square(n) { return n * n; }
+      export var pi = 3;
+      export class Point { init(x) { this.x = x; } }
+    `);
+    expect(run(`
+      import "math.lox" as math;
+      print math.square(4);
+      print math.pi;
+      print math.Point(7).x;
+      print math;
+    `)).toEqual(['16', '3', '7', '<namespace math>']);
+  });
+
+  it('binds named imports directly', () => {
+    write('util.lox', 'export fun twice(s) { return s + s; } export var sep = ", ";');
+    expect(run(`
+      import { twice, sep } from "util.lox";
+      print twice("ab") + sep;
+    `)).toEqual(['abab, ']);
+  });
+
+  it('hides declarations that are not exported', () => {
+    write('secret.lox', 'var hidden = 1; export fun reveal() { return hidden; }');
+    expect(run('import "secret.lox" as s; print s.reveal();')).toEqual(['1']);
+    expect(runError('import "secret.lox" as s; print s.hidden;').message)
+      .toBe("Undefined property 'hidden' in 'secret'.");
+    expect(runError('import { hidden } from "secret.lox";').message)
+      .toBe("Module 'secret.lox' does not export 'hidden'.");
+  });
+
+  it('resolves paths relative to the importing file', () => {
+    write('lib/a.lox', 'import { b } from "nested/b.lox"; export var a = "a" + b;');
+    write('lib/nested/b.lox', 'export var b = "b";');
+    expect(run('import { a } from "lib/a.lox"; print a;')).toEqual(['ab']);
+  });
+
+  it('falls back to the search path', () => {
+    write('vendor/greet.lox', 'export fun hi() { return "hi"; }');
+    expect(run('import "greet.lox" as g; print g.hi();', {
+      modules: { mainFile: path.join(root, 'main.lox'), searchPath: [path.join(root, 'vendor')] },
+    })).toEqual(['hi']);
+  });
+
+  it('reports modules that cannot be found', () => {
+    expect(runError('import "missing.lox" as m;')).toEqual({
+      status: RunStatus.RUNTIME_ERROR,
+      message: "Cannot find module 'missing.lox'.",
+    });
+  });
+});
+
+describe('Modules — evaluation', () => {
+  it('runs each module once and shares it between importers', () => {
+    write('counter.lox', 'print "loading"; var n = 0; export fun next() { n = n + 1; return n; }');
+    write('other.lox', 'import "counter.lox" as c; export fun bump() { return c.next(); }');
+    expect(run(`
+      import "counter.lox" as c;
+      import { bump } from "other.lox";
+      print c.next();
+      print bump();
+    `)).toEqual(['loading', '1', '2']);
+  });
+
+  it('gives each module its own globals', () => {
+    write('mod.lox', 'var name = "module"; export fun getName() { return name; }');
+    expect(run(`
+      var name = "main";
+      import { getName } from "mod.lox";
+      print getName();
+      print name;
+    `)).toEqual(['module', 'main']);
+  });
+
+  it('hides the importer\'s globals from the module', () => {
+    write('peek.lox', 'print secret;');
+    write('poke.lox', 'secret = "changed by module";');
+    expect(runError('var secret = "main"; import "peek.lox";').message)
+      .toBe("Undefined variable 'secret'.");
+    expect(runError('var secret = "main"; import "poke.lox";').message)
+      .toBe("Undefined variable 'secret'.");
+  });
+
+  it('keeps assignments to builtins local to the module', () => {
+    write('clobber.lox', 'len = nil; export fun check() { return len; }');
+    write('lists.lox', 'export fun size(xs) { return len(xs); } export fun ticking() { return clock() > 0; }');
+    expect(run(`
+      import { check } from "clobber.lox";
+      import { size, ticking } from "lists.lox";
+      print check();
+      print size([1, 2]);
+      print len([1]);
+      clock = 1;
+      print clock;
+      print ticking();
+    `)).toEqual(['nil', '2', '1', '1', 'true']);
+  });
+
+  it('lets modules use the builtins', () => {
+    write('lists.lox', 'export fun size(xs) { return len(xs); }');
+    expect(run('import { size } from "lists.lox"; print size([1, 2, 3]);')).toEqual(['3']);
+  });
+
+  it('detects import cycles', () => {
+    write('a.lox', 'import "b.lox";');
+    write('b.lox', 'import "a.lox";');
+    expect(runError('import "a.lox";').message).toBe('Import cycle: a.lox -> b.lox -> a.lox.');
+  });
+
+  it('attributes runtime errors to the module they happen in', () => {
+    const bad = write('bad.lox', 'export fun f() {\n  return 1 + nil;\n}');
+    const result = runLox('import { f } from "bad.lox";\nprint "hello world";\nf();', {
+      modules: { mainFile: path.join(root, 'main.lox') },
+    });
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    const [diagnostic] = result.diagnostics;
+    expect(diagnostic.message).toBe('Operands must be two numbers or two strings.');
+    expect(diagnostic).toMatchObject({ line: 2, column: 12 });
+    expect(diagnostic.file).toEqual({ path: bad, text: 'export fun f() {\n  return 1 + nil;\n}' });
+  });
+
+  it('leaves errors in the main script without a file', () => {
+    expect(runLox('print -nil;').diagnostics[0].file).toBeUndefined();
+  });
+
+  it('reports every static error inside a module', () => {
+    const broken = write('broken.lox', 'export var x = 1;\nprint ;\nreturn 2;');
+    const result = runLox('import "broken.lox" as b;', { modules: { mainFile: path.join(root, 'main.lox') } });
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.diagnostics.map(d => [d.message, d.line, d.file?.path])).toEqual([
+      ["Module 'broken.lox' has errors.", 1, undefined],
+      ['Expect expression.', 2, broken],
+      ["Can't return from top-level code.", 3, broken],
+    ]);
+  });
+});
+
+describe('Modules — static errors', () => {
+  it('only allows imports and exports at the top level', () => {
+    expect(runError('{ import "x.lox" as x; }')).toEqual({
+      status: RunStatus.COMPILE_ERROR,
+      message: 'Imports must be at the top level of a file.',
+    });
+    expect(runError('fun f() { export var x = 1; }').message)
+      .toBe('Exports must be at the top level of a file.');
+  });
+
+  it('requires a declaration after export', () => {
+    expect(runError('export print 1;').message).toBe("Expect declaration after 'export'.");
+  });
+
+  it('keeps as and from usable as names', () => {
+    expect(run('var as = 1; var from = 2; print as + from;')).toEqual(['3']);
+  });
+});
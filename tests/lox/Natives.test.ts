@@ -0,0 +1,104 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { Resolver } from '../../src/lox/Resolver';
+import { RuntimeError } from '../../src/lox/RuntimeError';
+import { NativeGroup } from '../../src/lox/LoxNative';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+function run(source: string, setup: (interpreter: Interpreter) => void): string[] {
+  const out = new BufferedWriter();
+  const interpreter = new Interpreter(out);
+  setup(interpreter);
+  const stmts = new Parser(new Scanner(source).scanTokens()).parse();
+  new Resolver(interpreter).resolve(stmts);
+  interpreter.interpret(stmts);
+  return out.lines;
+}
+
+describe('defineNative', () => {
+  it('registers a callable global', () => {
+    const output = run('print double(21);', interp => {
+      interp.defineNative('double', 1, args => args.number(0) * 2);
+    });
+    expect(output).toEqual(['42']);
+  });
+
+  it('converts undefined results to nil', () => {
+    const output = run('print noop();', interp => {
+      interp.defineNative('noop', 0, () => undefined);
+    });
+    expect(output).toEqual(['nil']);
+  });
+
+  it('accepts an arity range', () => {
+    const output = run('print join("a"); print join("a", "b");', interp => {
+      interp.defineNative('join', { min: 1, max: 2 }, args =>
+        args.has(1) ? args.string(0) + args.string(1) : args.string(0));
+    });
+    expect(output).toEqual(['a', 'ab']);
+  });
+
+  it('reports calls outside the arity range', () => {
+    expect(() => run('join();', interp => {
+      interp.defineNative('join', { min: 1, max: 2 }, () => null);
+    })).toThrow('Expected 1 to 2 arguments but got 0.');
+  });
+
+  it('reports variadic arity as a lower bound', () => {
+    expect(() => run('max();', interp => {
+      interp.defineNative('max', { min: 1, max: Infinity }, () => null);
+    })).toThrow('Expected at least 1 arguments but got 0.');
+  });
+
+  it('reports argument type errors at the call site', () => {
+    let error: unknown;
+    try {
+      run('\n\nsqrt("four");', interp => {
+        interp.defineNative('sqrt', 1, args => Math.sqrt(args.number(0)));
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RuntimeError);
+    expect((error as RuntimeError).message).toBe("Argument 1 to 'sqrt' must be a number.");
+    expect((error as RuntimeError).token.line).toBe(3);
+  });
+
+  it('rejects unsupported return values', () => {
+    expect(() => run('bad();', interp => {
+      interp.defineNative('bad', 0, () => ({ not: 'lox' }));
+    })).toThrow("Native function 'bad' returned an unsupported value.");
+  });
+
+  it('rejects an invalid arity', () => {
+    expect(() => new Interpreter().defineNative('x', { min: 2, max: 1 }, () => null))
+      .toThrow(RangeError);
+  });
+});
+
+describe('defineNatives', () => {
+  const math: NativeGroup = {
+    square: { arity: 1, impl: args => args.number(0) * args.number(0) },
+    pi: { arity: 0, impl: () => 3 },
+  };
+
+  it('exposes a group of natives under a namespace', () => {
+    const output = run('print math.square(4) + math.pi();', interp => {
+      interp.defineNatives('math', math);
+    });
+    expect(output).toEqual(['19']);
+  });
+
+  it('uses the qualified name in error messages', () => {
+    expect(() => run('math.square(nil);', interp => {
+      interp.defineNatives('math', math);
+    })).toThrow("Argument 1 to 'math.square' must be a number.");
+  });
+
+  it('reports unknown members', () => {
+    expect(() => run('math.cube(2);', interp => {
+      interp.defineNatives('math', math);
+    })).toThrow("Undefined property 'cube' in 'math'.");
+  });
+});
@@ -0,0 +1,92 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { AstPrinter } from '../../src/lox/AstPrinter';
+import { Stmt } from '../../src/lox/Stmt';
+import { TokenType } from '../../src/lox/TokenType';
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+function printExpr(source: string): string {
+  const stmts = new Parser(new Scanner(source + ';').scanTokens()).parse();
+  return new AstPrinter().print((stmts[0] as Stmt.Expression).expression);
+}
+
+describe('Modulo, power and bitwise operators — parsing', () => {
+  it('scans the new operators', () => {
+    const types = new Scanner('% ** & | ^ ~ << >>').scanTokens().map(t => t.type);
+    expect(types).toEqual([
+      TokenType.PERCENT,
+      TokenType.STAR_STAR,
+      TokenType.AMPERSAND,
+      TokenType.PIPE,
+      TokenType.CARET,
+      TokenType.TILDE,
+      TokenType.LESS_LESS,
+      TokenType.GREATER_GREATER,
+      TokenType.EOF,
+    ]);
+  });
+
+  it('makes ** right-associative and tighter than a unary minus on its left', () => {
+    expect(printExpr('2 ** 3 ** 2')).toBe('(** 2 (** 3 2))');
+    expect(printExpr('-2 ** 2')).toBe('(- (** 2 2))');
+    expect(printExpr('2 ** -1')).toBe('(** 2 (- 1))');
+  });
+
+  it('gives % the precedence of * and /', () => {
+    expect(printExpr('1 + 7 % 3 * 2')).toBe('(+ 1 (* (% 7 3) 2))');
+  });
+
+  it('orders bitwise operators below arithmetic and above comparison', () => {
+    expect(printExpr('1 | 2 ^ 3 & 4 << 5 + 6')).toBe('(| 1 (^ 2 (& 3 (<< 4 (+ 5 6)))))');
+    expect(printExpr('a & 1 == 0')).toBe('(== (& a 1) 0)');
+  });
+});
+
+describe('Modulo, power and bitwise operators — evaluation', () => {
+  it('computes remainders with the sign of the dividend', () => {
+    expect(run('print 7 % 3; print -7 % 3; print 5.5 % 2;')).toEqual(['1', '-1', '1.5']);
+  });
+
+  it('reports modulo by zero', () => {
+    expect(runError('print 1 % 0;')).toBe('Division by zero.');
+  });
+
+  it('computes powers', () => {
+    expect(run('print 2 ** 10; print 2 ** 3 ** 2; print -2 ** 2; print 4 ** 0.5;'))
+      .toEqual(['1024', '512', '-4', '2']);
+  });
+
+  it('computes bitwise operations on integers', () => {
+    expect(run('print 6 & 3; print 6 | 3; print 6 ^ 3; print ~5; print 1 << 4; print -16 >> 2;'))
+      .toEqual(['2', '7', '5', '-6', '16', '-4']);
+  });
+
+  it('wraps to 32-bit two\'s complement', () => {
+    expect(run('print 1 << 31; print 4294967296 | 0;')).toEqual(['-2147483648', '0']);
+  });
+
+  it('rejects non-integer operands to bitwise operators', () => {
+    expect(runError('print 1.5 & 1;')).toBe('Operands must be integers.');
+    expect(runError('print 1 << "2";')).toBe('Operands must be integers.');
+    expect(runError('print ~0.5;')).toBe('Operand must be an integer.');
+  });
+
+  it('requires numbers for % and **', () => {
+    expect(runError('print "a" % 2;')).toBe('Operands must be numbers.');
+    expect(runError('print 2 ** nil;')).toBe('Operands must be numbers.');
+  });
+});
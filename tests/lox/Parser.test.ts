@@ -127,6 +127,29 @@ describe('Parser — equality', () => {
   });
 });
 
+describe('Parser — conditional and nil-coalescing', () => {
+  it('parses a conditional expression', () => {
+    expect(parseAndPrint('a ? 1 : 2')).toBe('(?: a 1 2)');
+  });
+
+  it('makes the conditional right-associative', () => {
+    expect(parseAndPrint('a ? 1 : b ? 2 : 3')).toBe('(?: a 1 (?: b 2 3))');
+  });
+
+  it('binds ?? tighter than ?: and looser than or', () => {
+    expect(parseAndPrint('a ?? b or c ? d : e')).toBe('(?: (?? a (or b c)) d e)');
+    expect(parseAndPrint('a ?? b ?? c')).toBe('(?? (?? a b) c)');
+  });
+
+  it('allows assignment in the branches', () => {
+    expect(parseAndPrint('x = a ? b = 1 : 2')).toBe('(= x (?: a (= b 1) 2))');
+  });
+
+  it('requires a colon after the then branch', () => {
+    expect(parse('a ? 1')).toBeNull();
+  });
+});
+
 describe('Parser — errors', () => {
   it('returns null for missing closing paren', () => {
     const scanner = new Scanner('(1 + 2');
@@ -137,3 +160,39 @@ describe('Parser — errors', () => {
     expect(parser.errors.length > 0 || result === null).toBe(true);
   });
 });
+
+describe('Parser — spans', () => {
+  function parseProgram(source: string): Stmt[] {
+    return new Parser(new Scanner(source).scanTokens()).parse();
+  }
+
+  it('spans binary expressions from operand to operand', () => {
+    const expr = parse('  1 + foo')!;
+    expect(expr.span).toMatchObject({ start: 2, end: 9, line: 1, column: 3, endColumn: 10 });
+    expect((expr as Expr.Binary).right.span).toMatchObject({ start: 6, end: 9 });
+  });
+
+  it('spans calls and property access', () => {
+    const expr = parse('a.b(1, 2)')!;
+    expect(expr.span).toMatchObject({ start: 0, end: 9 });
+    expect((expr as Expr.Call).callee.span).toMatchObject({ start: 0, end: 3 });
+  });
+
+  it('spans statements including their terminators', () => {
+    const [stmt] = parseProgram('print 1;');
+    expect(stmt.span).toMatchObject({ start: 0, end: 8 });
+  });
+
+  it('spans statements across lines', () => {
+    const [stmt] = parseProgram('if (x) {\n  print x;\n}');
+    expect(stmt.span).toMatchObject({ line: 1, column: 1, endLine: 3, endColumn: 2 });
+  });
+
+  it('gives nodes synthesized for a for loop the span of the loop', () => {
+    const [stmt] = parseProgram('for (var i = 0; ; i = i + 1) {}');
+    const loop = (stmt as Stmt.Block).statements[1] as Stmt.While;
+    expect(stmt.span).toMatchObject({ start: 0, end: 31 });
+    expect(loop.span).toEqual(stmt.span);
+    expect(loop.condition.span).toEqual(stmt.span);
+  });
+});
@@ -82,4 +82,19 @@ describe('Resolver — error detection', () => {
   it('reports error for duplicate variable in same scope', () => {
     expect(() => run('{ var a = 1; var a = 2; }')).toThrow();
   });
+
+  it('reports break and continue outside of a loop', () => {
+    expect(() => run('break;')).toThrow("Resolve error: Can't use 'break' outside of a loop.");
+    expect(() => run('if (true) continue;'))
+      .toThrow("Resolve error: Can't use 'continue' outside of a loop.");
+  });
+
+  it('does not let break escape a function declared in a loop', () => {
+    expect(() => run('while (true) { fun f() { break; } }'))
+      .toThrow("Resolve error: Can't use 'break' outside of a loop.");
+  });
+
+  it('accepts break and continue inside loops', () => {
+    expect(run('while (true) { { break; } } for (;false;) continue;')).toEqual([]);
+  });
 });
@@ -0,0 +1,104 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+import { DiagnosticCode, DiagnosticPhase } from '../../src/lox/Diagnostic';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+describe('runLox — successful runs', () => {
+  it('captures printed output', () => {
+    const result = runLox('print 1 + 2; print "hi";');
+    expect(result.status).toBe(RunStatus.OK);
+    expect(result.output).toEqual(['3', 'hi']);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('does not write to the console', () => {
+    const spy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    runLox('print "quiet";');
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('forwards output to the stdout writer', () => {
+    const stdout = new BufferedWriter();
+    runLox('print 1; print 2;', { stdout });
+    expect(stdout.lines).toEqual(['1', '2']);
+  });
+
+  it('exposes host globals to the script', () => {
+    const result = runLox('print name + "!";', { globals: { name: 'lox' } });
+    expect(result.output).toEqual(['lox!']);
+  });
+});
+
+describe('runLox — diagnostics', () => {
+  it('reports scanner errors', () => {
+    const result = runLox('print 1; @');
+    expect(result.status).toBe(RunStatus.COMPILE_ERROR);
+    expect(result.diagnostics[0]).toMatchObject({
+      phase: DiagnosticPhase.SCAN,
+      code: DiagnosticCode.SCAN_ERROR,
+      message: "Unexpected character '@'.",
+      line: 1,
+      column: 10,
+    });
+    expect(result.output).toEqual([]);
+  });
+
+  it('reports parse errors without executing', () => {
+    const result = runLox('print "before";\nprint 1');
+    expect(result.status).toBe(RunStatus.COMPILE_ERROR);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        phase: DiagnosticPhase.PARSE,
+        code: DiagnosticCode.PARSE_ERROR,
+        message: "Expect ';' after value.",
+        line: 2,
+      }),
+    ]);
+    expect(result.output).toEqual([]);
+  });
+
+  it('reports resolver errors', () => {
+    const result = runLox('return 1;');
+    expect(result.status).toBe(RunStatus.COMPILE_ERROR);
+    expect(result.diagnostics[0].phase).toBe(DiagnosticPhase.RESOLVE);
+    expect(result.diagnostics[0].message).toBe("Can't return from top-level code.");
+  });
+
+  it('reports runtime errors and keeps earlier output', () => {
+    const result = runLox('print "a";\nprint -"b";');
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.output).toEqual(['a']);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        phase: DiagnosticPhase.RUNTIME,
+        code: DiagnosticCode.RUNTIME_ERROR,
+        message: 'Operand must be a number.',
+        line: 2,
+        column: 7,
+      }),
+    ]);
+  });
+
+  it('reports exhausted execution limits with a distinct code', () => {
+    const result = runLox('while (true) {}', { limits: { maxSteps: 10 } });
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.BUDGET_EXCEEDED);
+  });
+
+  it('reports stack overflows instead of crashing', () => {
+    const result = runLox('fun f() { f(); } f();');
+    expect(result.status).toBe(RunStatus.RUNTIME_ERROR);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.STACK_OVERFLOW,
+      message: 'Stack overflow.',
+    });
+  });
+
+  it('exposes the Lox call stack of runtime errors', () => {
+    const result = runLox('fun f() {\n  return nil + 1;\n}\nf();');
+    expect(result.diagnostics[0].stackTrace).toEqual([
+      { name: 'f', line: 2 },
+      { name: null, line: 4 },
+    ]);
+  });
+});
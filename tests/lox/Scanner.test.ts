@@ -195,4 +195,35 @@ describe('Scanner', () => {
       expect(tokens[3].type).toBe(TokenType.EOF);
     });
   });
+
+  describe('source positions', () => {
+    it('records line, column and offset for each token', () => {
+      const tokens = new Scanner('var x;\n  print x;').scanTokens();
+      const positions = tokens.map(t => [t.lexeme, t.line, t.column, t.offset]);
+      expect(positions).toEqual([
+        ['var', 1, 1, 0],
+        ['x', 1, 5, 4],
+        [';', 1, 6, 5],
+        ['print', 2, 3, 9],
+        ['x', 2, 9, 15],
+        [';', 2, 10, 16],
+        ['', 2, 11, 17],
+      ]);
+    });
+
+    it('spans multi-line strings from their opening quote', () => {
+      const tokens = new Scanner('x = "a\nbc";').scanTokens();
+      expect(tokens[2].span).toEqual({
+        start: 4, end: 10, line: 1, column: 5, endLine: 2, endColumn: 4,
+      });
+      expect(tokens[3].line).toBe(2);
+      expect(tokens[3].column).toBe(4);
+    });
+
+    it('records the position of scanner errors', () => {
+      const scanner = new Scanner('1;\n  @');
+      scanner.scanTokens();
+      expect(scanner.errors[0]).toMatchObject({ line: 2, column: 3 });
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { Resolver } from '../../src/lox/Resolver';
+import { RuntimeError, formatStackTrace } from '../../src/lox/RuntimeError';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+function runError(source: string, interpreter = new Interpreter(new BufferedWriter())): RuntimeError {
+  const stmts = new Parser(new Scanner(source).scanTokens()).parse();
+  new Resolver(interpreter).resolve(stmts);
+  try {
+    interpreter.interpret(stmts);
+  } catch (e) {
+    if (e instanceof RuntimeError) return e;
+    throw e;
+  }
+  throw new Error('Expected a runtime error.');
+}
+
+describe('Runtime error stack traces', () => {
+  it('records a single script frame for top-level errors', () => {
+    const error = runError('print 1;\nprint -nil;');
+    expect(error.stackTrace).toEqual([{ name: null, line: 2 }]);
+  });
+
+  it('records nested function frames innermost first', () => {
+    const src = [
+      'fun inner() {',
+      '  return -"x";',
+      '}',
+      'fun outer() {',
+      '  return inner();',
+      '}',
+      'outer();',
+    ].join('\n');
+    expect(runError(src).stackTrace).toEqual([
+      { name: 'inner', line: 2 },
+      { name: 'outer', line: 5 },
+      { name: null, line: 7 },
+    ]);
+  });
+
+  it('records initializer and method frames', () => {
+    const src = [
+      'class Box {',
+      '  init() { this.open(); }',
+      '  open() { return nil.lid; }',
+      '}',
+      'Box();',
+    ].join('\n');
+    expect(runError(src).stackTrace).toEqual([
+      { name: 'open', line: 3 },
+      { name: 'init', line: 2 },
+      { name: null, line: 5 },
+    ]);
+  });
+
+  it('does not add frames for native calls', () => {
+    const interpreter = new Interpreter(new BufferedWriter());
+    interpreter.defineNative('fail', 0, args => { throw args.error('boom'); });
+    const error = runError('fun f() {\n  fail();\n}\nf();', interpreter);
+    expect(error.stackTrace).toEqual([
+      { name: 'f', line: 2 },
+      { name: null, line: 4 },
+    ]);
+  });
+
+  it('starts each run with an empty stack', () => {
+    const interpreter = new Interpreter(new BufferedWriter());
+    runError('fun f() { return -nil; } f();', interpreter);
+    const error = runError('-nil;', interpreter);
+    expect(error.stackTrace).toEqual([{ name: null, line: 1 }]);
+  });
+});
+
+describe('formatStackTrace', () => {
+  it('formats frames like clox', () => {
+    expect(formatStackTrace([
+      { name: 'fib', line: 12 },
+      { name: null, line: 20 },
+    ])).toEqual(['[line 12] in fib()', '[line 20] in script']);
+  });
+
+  it('summarises the middle of a long trace', () => {
+    const frames = [
+      ...Array.from({ length: 30 }, () => ({ name: 'f', line: 2 })),
+      { name: null, line: 4 },
+    ];
+    const lines = formatStackTrace(frames);
+    expect(lines).toHaveLength(21);
+    expect(lines.slice(9, 12)).toEqual(['[line 2] in f()', '... 11 more frames', '[line 2] in f()']);
+    expect(lines[20]).toBe('[line 4] in script');
+  });
+
+  it('keeps the call parentheses for a function named script', () => {
+    const error = runError('fun script() {\n  return -nil;\n}\nscript();');
+    expect(formatStackTrace(error.stackTrace ?? [])).toEqual([
+      '[line 2] in script()',
+      '[line 4] in script',
+    ]);
+  });
+});
+
+describe('Stack traces through anonymous functions', () => {
+  it('names frames after the line of the function', () => {
+    const error = runError('var f = fun () {\n  return -nil;\n};\nf();');
+    expect(error.stackTrace).toEqual([
+      { name: 'anonymous@1', line: 2 },
+      { name: null, line: 4 },
+    ]);
+  });
+});
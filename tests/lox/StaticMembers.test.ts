@@ -0,0 +1,111 @@
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+describe('Static methods', () => {
+  it('calls a static method on the class', () => {
+    expect(run(`
+      class Math {
+        class square(n) { return n * n; }
+      }
+      print Math.square(3);
+    `)).toEqual(['9']);
+  });
+
+  it('binds this to the class', () => {
+    expect(run(`
+      class Point {
+        init(x, y) { this.x = x; this.y = y; }
+        class origin() { return this(0, 0); }
+      }
+      var p = Point.origin();
+      print p.x + p.y;
+      print p;
+    `)).toEqual(['0', 'Point instance']);
+  });
+
+  it('keeps static and instance methods apart', () => {
+    expect(runError(`
+      class A { class make() { return A(); } }
+      A().make();
+    `)).toBe("Undefined property 'make'.");
+    expect(runError(`
+      class A { greet() { print "hi"; } }
+      A.greet();
+    `)).toBe("Undefined property 'greet'.");
+  });
+
+  it('treats a static init as an ordinary method', () => {
+    expect(run(`
+      class A { class init() { return "static"; } }
+      print A.init();
+      print A();
+    `)).toEqual(['static', 'A instance']);
+  });
+});
+
+describe('Static fields', () => {
+  it('stores fields on the class', () => {
+    expect(run(`
+      class Counter {
+        class next() { this.count = this.count + 1; return this.count; }
+      }
+      Counter.count = 0;
+      Counter.next();
+      print Counter.next();
+      Counter.count += 10;
+      print Counter.count;
+    `)).toEqual(['2', '12']);
+  });
+
+  it('reports undefined static fields', () => {
+    expect(runError('class A {} print A.missing;')).toBe("Undefined property 'missing'.");
+  });
+});
+
+describe('Static inheritance', () => {
+  it('inherits static methods and binds them to the subclass', () => {
+    expect(run(`
+      class Animal {
+        class create() { return this(); }
+        speak() { print "..."; }
+      }
+      class Dog < Animal {
+        speak() { print "woof"; }
+      }
+      Dog.create().speak();
+    `)).toEqual(['woof']);
+  });
+
+  it('calls overridden statics through super', () => {
+    expect(run(`
+      class A { class name() { return "A"; } }
+      class B < A { class name() { return "B extends " + super.name(); } }
+      print B.name();
+    `)).toEqual(['B extends A']);
+  });
+
+  it('inherits static fields until the subclass shadows them', () => {
+    expect(run(`
+      class A {}
+      class B < A {}
+      A.version = 1;
+      print B.version;
+      B.version = 2;
+      print A.version;
+      print B.version;
+    `)).toEqual(['1', '1', '2']);
+  });
+});
@@ -0,0 +1,99 @@
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { AstPrinter } from '../../src/lox/AstPrinter';
+import { Stmt } from '../../src/lox/Stmt';
+import { TokenType } from '../../src/lox/TokenType';
+import { runLox, RunStatus } from '../../src/lox/Runner';
+
+function run(source: string): string[] {
+  const result = runLox(source);
+  if (result.status !== RunStatus.OK) {
+    throw new Error(result.diagnostics.map(d => d.message).join('\n'));
+  }
+  return result.output;
+}
+
+function runError(source: string): string {
+  const result = runLox(source);
+  expect(result.status).not.toBe(RunStatus.OK);
+  return result.diagnostics[0].message;
+}
+
+describe('Strings — escapes', () => {
+  it('decodes escape sequences', () => {
+    expect(run('print "a\\tb\\nc";')).toEqual(['a\tb\nc']);
+    expect(run('print "say \\"hi\\" \\\\ \\u{2713}";')).toEqual(['say "hi" \\ ✓']);
+  });
+
+  it('keeps escaped quotes from ending the string', () => {
+    const tokens = new Scanner('"a\\"b" 1').scanTokens();
+    expect(tokens.map(t => t.type)).toEqual([TokenType.STRING, TokenType.NUMBER, TokenType.EOF]);
+    expect(tokens[0].literal).toBe('a"b');
+  });
+
+  it('reports invalid escapes', () => {
+    expect(runError('print "\\q";')).toBe("Invalid escape sequence '\\q'.");
+    expect(runError('print "\\u{zz}";')).toBe('Invalid unicode escape sequence.');
+  });
+});
+
+describe('Strings — raw and multiline', () => {
+  it('takes raw strings literally', () => {
+    expect(run('print r"C:\\new\\${dir}";')).toEqual(['C:\\new\\${dir}']);
+  });
+
+  it('spans lines in both string forms', () => {
+    expect(run('print "one\ntwo"; print r"three\nfour";')).toEqual(['one\ntwo', 'three\nfour']);
+  });
+
+  it('tracks lines after multiline strings', () => {
+    const tokens = new Scanner('r"a\nb\nc" x').scanTokens();
+    expect(tokens[1].line).toBe(3);
+  });
+
+  it('still allows r as an identifier', () => {
+    expect(run('var r = 1; print r;')).toEqual(['1']);
+  });
+
+  it('reports unterminated raw strings', () => {
+    expect(runError('print r"abc')).toBe('Unterminated string.');
+  });
+});
+
+describe('Strings — interpolation', () => {
+  it('stringifies interpolated values', () => {
+    const source = `
+      var name = "Lox";
+      var n = 3;
+      print "Hello \${name}! \${n} + 1 = \${n + 1}, \${nil} \${[1, 2]}";
+    `;
+    expect(run(source)).toEqual(['Hello Lox! 3 + 1 = 4, nil [1, 2]']);
+  });
+
+  it('handles interpolations at the edges and back to back', () => {
+    expect(run('var a = 1; var b = 2; print "\${a}\${b}";')).toEqual(['12']);
+  });
+
+  it('supports braces and nested strings inside interpolations', () => {
+    const source = 'var m = {"k": "v"}; print "m is \${m} and \${"inner \${m["k"]}"}!";';
+    expect(run(source)).toEqual(['m is {k: v} and inner v!']);
+  });
+
+  it('escapes the dollar sign', () => {
+    expect(run('print "cost: \\${x}";')).toEqual(['cost: ${x}']);
+  });
+
+  it('parses to an interpolation node', () => {
+    const stmts = new Parser(new Scanner('"a${b}c${d}";').scanTokens()).parse();
+    const expr = (stmts[0] as Stmt.Expression).expression;
+    expect(new AstPrinter().print(expr)).toBe('(interpolate a b c d)');
+  });
+
+  it('reports an unclosed interpolation', () => {
+    expect(runError('print "a${1 2}";')).toBe("Expect '}' after interpolated expression.");
+  });
+
+  it('resolves locals used in interpolations', () => {
+    expect(run('var x = "global"; { var x = "local"; print "${x}"; }')).toEqual(['local']);
+  });
+});
@@ -0,0 +1,101 @@
+import { DiagnosticRenderer, tokenContext } from '../../src/shared/DiagnosticRenderer';
+import { Scanner } from '../../src/lox/Scanner';
+import { VM } from '../../src/vm/VM';
+import { BufferedWriter } from '../../src/shared/Writer';
+
+describe('DiagnosticRenderer', () => {
+  it('underlines the token range under the source line', () => {
+    const source = 'var x = 1;\nprint x y;';
+    const token = new Scanner(source).scanTokens()[7];
+    const lines = new DiagnosticRenderer(source).render({
+      label: 'Error',
+      message: "Expect ';' after value.",
+      range: token.span,
+      context: tokenContext(token.lexeme, false),
+    });
+    expect(lines).toEqual([
+      "[line 2:9] Error at 'y': Expect ';' after value.",
+      '   2 | print x y;',
+      '     |         ^',
+    ]);
+  });
+
+  it('underlines every character of a longer token', () => {
+    const lines = new DiagnosticRenderer('  foo(bar);').render({
+      label: 'RuntimeError',
+      message: 'Undefined variable.',
+      range: { line: 1, column: 7, endLine: 1, endColumn: 10 },
+    });
+    expect(lines[2]).toBe('     |       ^^^');
+  });
+
+  it('draws a single caret for empty ranges', () => {
+    const lines = new DiagnosticRenderer('1 +').render({
+      label: 'Error',
+      message: 'Expect expression.',
+      range: { line: 1, column: 4, endLine: 1, endColumn: 4 },
+      context: tokenContext('', true),
+    });
+    expect(lines).toEqual([
+      '[line 1:4] Error at end: Expect expression.',
+      '   1 | 1 +',
+      '     |    ^',
+    ]);
+  });
+
+  it('stops the underline at the end of the first line of a multi-line range', () => {
+    const lines = new DiagnosticRenderer('x = "ab\ncd";').render({
+      label: 'Error',
+      message: 'Bad string.',
+      range: { line: 1, column: 5, endLine: 2, endColumn: 4 },
+    });
+    expect(lines[2]).toBe('     |     ^^^');
+  });
+
+  it('keeps tabs so carets line up', () => {
+    const lines = new DiagnosticRenderer('\tx;').render({
+      label: 'Error',
+      message: 'm',
+      range: { line: 1, column: 2, endLine: 1, endColumn: 3 },
+    });
+    expect(lines[2]).toBe('     | \t^');
+  });
+
+  it('renders only the header without a source or column', () => {
+    const range = { line: 3, column: 0, endLine: 3, endColumn: 0 };
+    expect(new DiagnosticRenderer(null).render({ label: 'Error', message: 'm', range }))
+      .toEqual(['[line 3] Error: m']);
+  });
+
+  it('colors the label and carets when asked', () => {
+    const lines = new DiagnosticRenderer('x;', { color: true }).render({
+      label: 'Error',
+      message: 'm',
+      range: { line: 1, column: 1, endLine: 1, endColumn: 2 },
+    });
+    expect(lines[0]).toBe('[line 1:1] \x1b[1m\x1b[31mError:\x1b[0m m');
+    expect(lines[2]).toContain('\x1b[31m^\x1b[0m');
+  });
+});
+
+describe('DiagnosticRenderer — bytecode compiler', () => {
+  it('renders compile errors with context and a snippet', () => {
+    const err = new BufferedWriter();
+    new VM(new BufferedWriter(), err).interpretSource('(1 + 2');
+    expect(err.lines).toEqual([
+      "[line 1:7] Error at end: Expect ')' after expression.",
+      '   1 | (1 + 2',
+      '     |       ^',
+    ]);
+  });
+
+  it('renders runtime errors at the operator', () => {
+    const err = new BufferedWriter();
+    new VM(new BufferedWriter(), err).interpretSource('1 +\n  -nil');
+    expect(err.lines).toEqual([
+      '[line 2:3] RuntimeError: Operand must be a number.',
+      '   2 |   -nil',
+      '     |   ^',
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import * as path from 'path';
+import { JsonDiagnosticWriter } from '../../src/shared/JsonDiagnostics';
+import { parseCliArgs } from '../../src/shared/CliArgs';
+import { BufferedWriter } from '../../src/shared/Writer';
+import { VM } from '../../src/vm/VM';
+import { VmDiagnosticCode } from '../../src/vm/VmDiagnostic';
+
+describe('JsonDiagnosticWriter', () => {
+  it('writes one JSON record per diagnostic and a summary', () => {
+    const out = new BufferedWriter();
+    const json = new JsonDiagnosticWriter(out, 'main.lox');
+    json.diagnostic({
+      phase: 'parse',
+      code: 'LOX002',
+      message: "Expect ';' after value.",
+      range: { line: 2, column: 7, endLine: 2, endColumn: 8 },
+    });
+    json.summary('compile-error', 65);
+
+    expect(out.lines.map(line => JSON.parse(line))).toEqual([
+      {
+        type: 'diagnostic',
+        severity: 'error',
+        phase: 'parse',
+        code: 'LOX002',
+        message: "Expect ';' after value.",
+        file: 'main.lox',
+        line: 2,
+        column: 7,
+        end: { line: 2, column: 8 },
+      },
+      { type: 'summary', file: 'main.lox', errors: 1, status: 'compile-error', exitCode: 65 },
+    ]);
+  });
+
+  it('resets the error count after each summary', () => {
+    const out = new BufferedWriter();
+    const json = new JsonDiagnosticWriter(out, null);
+    json.diagnostic({ phase: 'runtime', code: 'X', message: 'm', range: { line: 1, column: 1, endLine: 1, endColumn: 1 } });
+    json.summary('runtime-error', 70);
+    json.summary('ok', 0);
+    expect(JSON.parse(out.lines[2])).toMatchObject({ errors: 0, status: 'ok', file: null });
+  });
+
+  it('lets a diagnostic name the file it came from', () => {
+    const out = new BufferedWriter();
+    const json = new JsonDiagnosticWriter(out, 'main.lox');
+    const range = { line: 1, column: 1, endLine: 1, endColumn: 1 };
+    json.diagnostic({ phase: 'runtime', code: 'X', message: 'm', range, file: 'lib/util.lox' });
+    json.summary('runtime-error', 70);
+    expect(JSON.parse(out.lines[0])).toMatchObject({ file: 'lib/util.lox' });
+    expect(JSON.parse(out.lines[1])).toMatchObject({ file: 'main.lox' });
+  });
+});
+
+describe('parseCliArgs', () => {
+  it('defaults to text diagnostics and no script', () => {
+    expect(parseCliArgs([])).toEqual({ path: null, diagnostics: 'text', modulePath: [] });
+  });
+
+  it('accepts the diagnostics flag before or after the path', () => {
+    const expected = { path: 'a.lox', diagnostics: 'json', modulePath: [] };
+    expect(parseCliArgs(['--diagnostics=json', 'a.lox'])).toEqual(expected);
+    expect(parseCliArgs(['a.lox', '--diagnostics=json'])).toEqual(expected);
+  });
+
+  it('splits the module path on the platform delimiter', () => {
+    const dirs = ['one', '', 'two'].join(path.delimiter);
+    expect(parseCliArgs([`--module-path=${dirs}`, 'a.lox'])).toEqual({
+      path: 'a.lox',
+      diagnostics: 'text',
+      modulePath: ['one', 'two'],
+    });
+  });
+
+  it('rejects unknown formats, unknown flags and extra paths', () => {
+    expect(parseCliArgs(['--diagnostics=xml'])).toBeNull();
+    expect(parseCliArgs(['--verbose'])).toBeNull();
+    expect(parseCliArgs(['a.lox', 'b.lox'])).toBeNull();
+  });
+});
+
+describe('VM structured diagnostics', () => {
+  it('records compile errors with their range', () => {
+    const vm = new VM(new BufferedWriter(), new BufferedWriter());
+    vm.interpretSource('1 + )');
+    expect(vm.diagnostics).toEqual([{
+      phase: 'compile',
+      code: VmDiagnosticCode.COMPILE_ERROR,
+      message: 'Expect expression.',
+      range: { start: 4, end: 5, line: 1, column: 5, endLine: 1, endColumn: 6 },
+    }]);
+  });
+
+  it('records runtime errors and clears them on the next run', () => {
+    const vm = new VM(new BufferedWriter(), new BufferedWriter());
+    vm.interpretSource('-nil');
+    expect(vm.diagnostics[0]).toMatchObject({ phase: 'runtime', code: VmDiagnosticCode.RUNTIME_ERROR });
+    vm.interpretSource('1');
+    expect(vm.diagnostics).toEqual([]);
+  });
+
+  it('gives exhausted budgets their own code', () => {
+    const vm = new VM(new BufferedWriter(), new BufferedWriter(), { maxSteps: 1 });
+    vm.interpretSource('1 + 2');
+    expect(vm.diagnostics[0].code).toBe(VmDiagnosticCode.BUDGET_EXCEEDED);
+  });
+});
@@ -0,0 +1,29 @@
+import { EscapeError, unescapeString } from '../../src/shared/StringEscapes';
+
+describe('unescapeString', () => {
+  it('leaves text without escapes alone', () => {
+    expect(unescapeString('plain $ text {}')).toBe('plain $ text {}');
+  });
+
+  it('decodes simple escapes', () => {
+    expect(unescapeString('a\\nb\\tc\\r\\0\\"\\\\\\$')).toBe('a\nb\tc\r\0"\\$');
+  });
+
+  it('decodes unicode escapes', () => {
+    expect(unescapeString('\\u{41}\\u{e9}\\u{1F600}')).toBe('Aé😀');
+  });
+
+  it('rejects unknown escapes', () => {
+    expect(() => unescapeString('\\q')).toThrow(new EscapeError("Invalid escape sequence '\\q'."));
+  });
+
+  it('rejects malformed unicode escapes', () => {
+    for (const body of ['\\u41', '\\u{}', '\\u{1234567}', '\\u{110000}', '\\u{zz}']) {
+      expect(() => unescapeString(body)).toThrow('Invalid unicode escape sequence.');
+    }
+  });
+
+  it('rejects a trailing backslash', () => {
+    expect(() => unescapeString('abc\\')).toThrow('Unterminated escape sequence.');
+  });
+});
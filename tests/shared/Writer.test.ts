@@ -0,0 +1,61 @@
+import { PassThrough } from 'stream';
+import { BufferedWriter, CallbackWriter, StreamWriter } from '../../src/shared/Writer';
+import { Interpreter } from '../../src/lox/Interpreter';
+import { Scanner } from '../../src/lox/Scanner';
+import { Parser } from '../../src/lox/Parser';
+import { VM, InterpretResult } from '../../src/vm/VM';
+import { Chunk } from '../../src/vm/Chunk';
+import { OpCode } from '../../src/vm/OpCode';
+
+describe('Writer implementations', () => {
+  it('BufferedWriter collects lines and renders them as a string', () => {
+    const out = new BufferedWriter();
+    out.writeLine('a');
+    out.writeLine('b');
+    expect(out.lines).toEqual(['a', 'b']);
+    expect(out.toString()).toBe('a\nb\n');
+  });
+
+  it('CallbackWriter forwards each line', () => {
+    const seen: string[] = [];
+    const out = new CallbackWriter(text => seen.push(text));
+    out.writeLine('x');
+    expect(seen).toEqual(['x']);
+  });
+
+  it('StreamWriter terminates each line with a newline', () => {
+    const stream = new PassThrough();
+    const chunks: string[] = [];
+    stream.on('data', data => chunks.push(String(data)));
+    new StreamWriter(stream).writeLine('hello');
+    expect(chunks.join('')).toBe('hello\n');
+  });
+});
+
+describe('Writer injection', () => {
+  it('routes Interpreter print statements to its writer', () => {
+    const out = new BufferedWriter();
+    const stmts = new Parser(new Scanner('print 1 + 1; print "two";').scanTokens()).parse();
+    new Interpreter(out).interpret(stmts);
+    expect(out.lines).toEqual(['2', 'two']);
+  });
+
+  it('routes VM OP_PRINT to its stdout writer', () => {
+    const out = new BufferedWriter();
+    const chunk = new Chunk();
+    chunk.write(OpCode.OP_CONSTANT, 1); chunk.write(chunk.addConstant(7), 1);
+    chunk.write(OpCode.OP_PRINT, 1);
+    chunk.write(OpCode.OP_RETURN, 1);
+    new VM(out).interpret(chunk);
+    expect(out.lines).toEqual(['7']);
+  });
+
+  it('routes VM compile and runtime errors to its stderr writer', () => {
+    const err = new BufferedWriter();
+    const vm = new VM(new BufferedWriter(), err);
+    expect(vm.interpretSource('1 +')).toBe(InterpretResult.COMPILE_ERROR);
+    expect(vm.interpretSource('-true')).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(err.lines[0]).toBe('[line 1:4] Error at end: Expect expression.');
+    expect(err.lines).toContain('[line 1:1] RuntimeError: Operand must be a number.');
+  });
+});
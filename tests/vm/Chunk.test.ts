@@ -57,6 +57,16 @@ describe('Chunk', () => {
     expect(output).toContain('42');
   });
 
+  it('disassembles jumps with their resolved targets', () => {
+    const chunk = new Chunk();
+    chunk.write(OpCode.OP_JUMP, 1); chunk.write(0, 1); chunk.write(3, 1);
+    chunk.write(OpCode.OP_NIL, 1);
+    chunk.write(OpCode.OP_LOOP, 1); chunk.write(0, 1); chunk.write(7, 1);
+    const output = chunk.disassemble('test');
+    expect(output).toContain('OP_JUMP 0 -> 6');
+    expect(output).toContain('OP_LOOP 4 -> 0');
+  });
+
   it('tracks same-line instructions with | marker', () => {
     const chunk = new Chunk();
     chunk.write(OpCode.OP_RETURN, 5);
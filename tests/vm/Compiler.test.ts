@@ -1,4 +1,7 @@
 import { VM, InterpretResult } from '../../src/vm/VM';
+import { Compiler } from '../../src/vm/Compiler';
+import { OpCode } from '../../src/vm/OpCode';
+import { BufferedWriter } from '../../src/shared/Writer';
 
 function run(source: string): InterpretResult {
   return new VM().interpretSource(source);
@@ -31,6 +34,95 @@ describe('Compiler — comparison', () => {
   it('compiles 1 != 2', () => expect(run('1 != 2')).toBe(InterpretResult.OK));
 });
 
+// The compiler only handles a single expression, so print its result by
+// swapping the trailing OP_RETURN for OP_PRINT, OP_RETURN.
+function evaluate(source: string): string[] {
+  const chunk = new Compiler(new BufferedWriter()).compile(source);
+  if (!chunk) throw new Error(`Failed to compile: ${source}`);
+  chunk.code.pop();
+  chunk.write(OpCode.OP_PRINT, 1);
+  chunk.write(OpCode.OP_RETURN, 1);
+  const out = new BufferedWriter();
+  new VM(out).interpret(chunk);
+  return out.lines;
+}
+
+describe('Compiler — conditional and nil-coalescing', () => {
+  it('compiles ?: with jumps', () => {
+    expect(evaluate('true ? 1 : 2')).toEqual(['1']);
+    expect(evaluate('nil ? 1 : 2')).toEqual(['2']);
+  });
+
+  it('compiles nested ?: right-associatively', () => {
+    expect(evaluate('false ? 1 : true ? 2 : 3')).toEqual(['2']);
+    expect(evaluate('true ? false ? 1 : 2 : 3')).toEqual(['2']);
+  });
+
+  it('only runs the chosen branch', () => {
+    expect(evaluate('true ? 1 : -nil')).toEqual(['1']);
+  });
+
+  it('compiles ?? to fall through only on nil', () => {
+    expect(evaluate('nil ?? 5')).toEqual(['5']);
+    expect(evaluate('false ?? 5')).toEqual(['false']);
+    expect(evaluate('1 ?? -nil')).toEqual(['1']);
+  });
+
+  it('binds ?? tighter than ?:', () => {
+    expect(evaluate('nil ?? false ? 1 : 2')).toEqual(['2']);
+  });
+
+  it('requires a colon after the then branch', () => {
+    const compiler = new Compiler(new BufferedWriter());
+    expect(compiler.compile('true ? 1')).toBeNull();
+    expect(compiler.errors[0].message).toBe("Expect ':' after then branch of conditional expression.");
+  });
+});
+
+describe('Compiler — modulo, power and bitwise operators', () => {
+  it('compiles % and **', () => {
+    expect(evaluate('7 % 3')).toEqual(['1']);
+    expect(evaluate('2 ** 3 ** 2')).toEqual(['512']);
+    expect(evaluate('-2 ** 2')).toEqual(['-4']);
+    expect(evaluate('2 ** -1')).toEqual(['0.5']);
+  });
+
+  it('compiles bitwise operators with their precedence', () => {
+    expect(evaluate('6 & 3')).toEqual(['2']);
+    expect(evaluate('1 | 2 ^ 3 & 4 << 5 + 6')).toEqual(['3']);
+    expect(evaluate('~5')).toEqual(['-6']);
+    expect(evaluate('-16 >> 2')).toEqual(['-4']);
+    expect(evaluate('(1 & 1) == 1')).toEqual(['true']);
+  });
+
+  it('rejects non-integer bitwise operands at runtime', () => {
+    const vm = new VM(new BufferedWriter(), new BufferedWriter());
+    expect(vm.interpretSource('1.5 | 0')).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(vm.diagnostics[0].message).toBe('Operands must be integers.');
+    expect(vm.interpretSource('~true')).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(vm.diagnostics[0].message).toBe('Operand must be an integer.');
+  });
+});
+
+describe('Compiler — strings', () => {
+  it('compiles string literals with escapes', () => {
+    expect(evaluate('"a\\tb"')).toEqual(['a\tb']);
+    expect(evaluate('r"a\\tb"')).toEqual(['a\\tb']);
+  });
+
+  it('compiles interpolation to concatenation of stringified parts', () => {
+    expect(evaluate('"x = ${1 + 2}, ok: ${true}, ${nil}"')).toEqual(['x = 3, ok: true, nil']);
+    expect(evaluate('"${1}${"two"}"')).toEqual(['1two']);
+    expect(evaluate('"outer ${"inner ${4 * 2}"}"')).toEqual(['outer inner 8']);
+  });
+
+  it('reports an unclosed interpolation', () => {
+    const compiler = new Compiler(new BufferedWriter());
+    expect(compiler.compile('"a${1 2}"')).toBeNull();
+    expect(compiler.errors[0].message).toBe("Expect '}' after interpolated expression.");
+  });
+});
+
 describe('Compiler — print statement', () => {
   it('prints a number via print statement', () => {
     // Note: print is a statement — we need to extend the compiler in Step 19
@@ -47,4 +139,12 @@ describe('Compiler — errors', () => {
   it('returns COMPILE_ERROR for unclosed paren', () => {
     expect(run('(1 + 2')).toBe(InterpretResult.COMPILE_ERROR);
   });
+
+  it('does not accept break and continue as expressions', () => {
+    const vm = new VM(new BufferedWriter(), new BufferedWriter());
+    expect(vm.interpretSource('1 + break')).toBe(InterpretResult.COMPILE_ERROR);
+    expect(vm.diagnostics[0].message).toBe('Expect expression.');
+    expect(vm.interpretSource('continue')).toBe(InterpretResult.COMPILE_ERROR);
+    expect(vm.diagnostics[0].message).toBe('Expect expression.');
+  });
 });
@@ -1,6 +1,7 @@
 import { Chunk } from '../../src/vm/Chunk';
 import { OpCode } from '../../src/vm/OpCode';
 import { VM, InterpretResult } from '../../src/vm/VM';
+import { BufferedWriter } from '../../src/shared/Writer';
 
 function makeChunk(build: (chunk: Chunk) => void): Chunk {
   const chunk = new Chunk();
@@ -79,6 +80,18 @@ describe('VM — arithmetic', () => {
     });
     expect(new VM().interpret(chunk)).toBe(InterpretResult.RUNTIME_ERROR);
   });
+
+  it('reports modulo by zero like the tree-walker', () => {
+    const chunk = makeChunk(c => {
+      c.write(OpCode.OP_CONSTANT, 1); c.write(c.addConstant(5), 1);
+      c.write(OpCode.OP_CONSTANT, 1); c.write(c.addConstant(0), 1);
+      c.write(OpCode.OP_MODULO, 1);
+      c.write(OpCode.OP_POP, 1);
+    });
+    const vm = new VM(new BufferedWriter(), new BufferedWriter());
+    expect(vm.interpret(chunk)).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(vm.diagnostics[0].message).toBe('Division by zero.');
+  });
 });
 
 describe('VM — comparison and equality', () => {
@@ -118,3 +131,70 @@ describe('VM — print', () => {
     expect(output).toEqual(['42']);
   });
 });
+
+describe('VM — execution limits', () => {
+  it('stops once the instruction budget is exhausted', () => {
+    const err = new BufferedWriter();
+    const chunk = makeChunk(c => {
+      c.write(OpCode.OP_NIL, 1);
+      c.write(OpCode.OP_POP, 1);
+      c.write(OpCode.OP_NIL, 2);
+      c.write(OpCode.OP_POP, 2);
+    });
+    const vm = new VM(new BufferedWriter(), err, { maxSteps: 2 });
+    expect(vm.interpret(chunk)).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(err.lines).toEqual(['[line 2] RuntimeError: Execution step limit of 2 exceeded.']);
+  });
+
+  it('stops when the abort signal has fired', () => {
+    const controller = new AbortController();
+    controller.abort();
+    const err = new BufferedWriter();
+    const vm = new VM(new BufferedWriter(), err, { signal: controller.signal });
+    expect(vm.interpret(makeChunk(() => {}))).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(err.lines).toEqual(['[line 1] RuntimeError: Execution aborted.']);
+  });
+});
+
+describe('VM — jumps', () => {
+  function runCapture(chunk: Chunk): string[] {
+    const out = new BufferedWriter();
+    new VM(out).interpret(chunk);
+    return out.lines;
+  }
+
+  it('OP_JUMP skips forward over code', () => {
+    const chunk = makeChunk(c => {
+      c.write(OpCode.OP_JUMP, 1); c.write(0, 1); c.write(3, 1);
+      c.write(OpCode.OP_CONSTANT, 1); c.write(c.addConstant('skipped'), 1);
+      c.write(OpCode.OP_PRINT, 1);
+      c.write(OpCode.OP_CONSTANT, 1); c.write(c.addConstant('reached'), 1);
+      c.write(OpCode.OP_PRINT, 1);
+    });
+    expect(runCapture(chunk)).toEqual(['reached']);
+  });
+
+  it('OP_JUMP_IF_FALSE jumps only on falsey values and leaves them on the stack', () => {
+    const branch = (condition: OpCode) => makeChunk(c => {
+      c.write(condition, 1);
+      c.write(OpCode.OP_JUMP_IF_FALSE, 1); c.write(0, 1); c.write(3, 1);
+      c.write(OpCode.OP_CONSTANT, 1); c.write(c.addConstant('then'), 1);
+      c.write(OpCode.OP_PRINT, 1);
+      c.write(OpCode.OP_PRINT, 1);
+    });
+    expect(runCapture(branch(OpCode.OP_TRUE))).toEqual(['then', 'true']);
+    expect(runCapture(branch(OpCode.OP_NIL))).toEqual(['nil']);
+  });
+
+  it('OP_LOOP jumps backwards and is bounded by the step budget', () => {
+    const err = new BufferedWriter();
+    const chunk = makeChunk(c => {
+      c.write(OpCode.OP_NIL, 1);
+      c.write(OpCode.OP_POP, 1);
+      c.write(OpCode.OP_LOOP, 1); c.write(0, 1); c.write(5, 1);
+    });
+    const vm = new VM(new BufferedWriter(), err, { maxSteps: 30 });
+    expect(vm.interpret(chunk)).toBe(InterpretResult.RUNTIME_ERROR);
+    expect(err.lines).toEqual(['[line 1] RuntimeError: Execution step limit of 30 exceeded.']);
+  });
+});
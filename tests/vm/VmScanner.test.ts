@@ -1,6 +1,6 @@
 import { VmScanner } from '../../src/vm/Scanner';
 import { TokenType } from '../../src/vm/TokenType';
-import { getLexeme } from '../../src/vm/Token';
+import { getLexeme, VmErrorToken } from '../../src/vm/Token';
 
 function scanAll(source: string) {
   const scanner = new VmScanner(source);
@@ -88,4 +88,53 @@ describe('VmScanner', () => {
     expect(types).toContain(TokenType.EQUAL_EQUAL);
     expect(types).toContain(TokenType.LESS_EQUAL);
   });
+
+  it('tracks columns', () => {
+    const tokens = scanAll('1 +\n  foo');
+    expect(tokens.map(t => [t.line, t.column])).toEqual([[1, 1], [1, 3], [2, 3], [2, 6]]);
+  });
+});
+
+describe('VmScanner — strings', () => {
+  it('splits interpolated strings around their expressions', () => {
+    const source = '"a${b + "c${d}"}e"';
+    const tokens = scanAll(source);
+    expect(tokens.map(t => t.type)).toEqual([
+      TokenType.INTERPOLATION,
+      TokenType.IDENTIFIER,
+      TokenType.PLUS,
+      TokenType.INTERPOLATION,
+      TokenType.IDENTIFIER,
+      TokenType.STRING,
+      TokenType.STRING,
+      TokenType.EOF,
+    ]);
+    expect(tokens.map(t => getLexeme(source, t))).toEqual(
+      ['"a${', 'b', '+', '"c${', 'd', '}"', '}e"', ''],
+    );
+  });
+
+  it('keeps braces inside interpolations balanced', () => {
+    const types = scanAll('"${ { } }x"').map(t => t.type);
+    expect(types).toEqual([
+      TokenType.INTERPOLATION,
+      TokenType.LEFT_BRACE,
+      TokenType.RIGHT_BRACE,
+      TokenType.STRING,
+      TokenType.EOF,
+    ]);
+  });
+
+  it('scans raw strings as a single token', () => {
+    const source = 'r"\\q ${x}"';
+    const [token] = scanAll(source);
+    expect(token.type).toBe(TokenType.STRING);
+    expect(getLexeme(source, token)).toBe(source);
+  });
+
+  it('reports invalid escapes as error tokens', () => {
+    const [token] = scanAll('"\\q"');
+    expect(token.type).toBe(TokenType.ERROR);
+    expect((token as VmErrorToken).message).toBe("Invalid escape sequence '\\q'.");
+  });
 });